@@ -0,0 +1,108 @@
+import SecretsManagerUtil from '@common/aws/SecretsManagerUtil';
+
+export interface AWSClientConfig {
+  region: string;
+  endpoint?: string;
+  credentials?: {
+    accessKeyId: string;
+    secretAccessKey: string;
+  };
+}
+
+export interface AWSClientOptions {
+  /**
+   * 接続先のエンドポイント (DynamoDB Local など)。
+   * 指定した場合は Secrets Manager を参照せず、ダミーの認証情報でクライアントを生成する。
+   */
+  endpoint?: string;
+}
+
+type AWSClientClass<C> = new (config: AWSClientConfig) => C;
+
+// エミュレーターは認証情報を検証しないが、SDK は認証情報の解決を必須とするため固定値を渡す
+const ENDPOINT_CREDENTIALS = {
+  accessKeyId: 'local',
+  secretAccessKey: 'local',
+};
+
+/**
+ * AWS SDK のクライアントを生成・共有する。
+ * クライアントは種類とリージョン・認証情報の組み合わせごとに 1 度だけ生成し、以降は同じインスタンスを返す。
+ *
+ * @example
+ * const client = await AWSClientFactory.getClient(DynamoDBClient);
+ */
+export default class AWSClientFactory {
+  private static readonly clients = new Map<AWSClientClass<unknown>, Map<string, unknown>>();
+  private static readonly injectedClients = new Map<AWSClientClass<unknown>, unknown>();
+
+  /**
+   * クライアントを取得する。初回呼び出し時に Secrets Manager から設定を読み込んで生成する。
+   * setClient でクライアントが差し替えられている場合はそれを返す。
+   * @param clientClass クライアントのクラス (DynamoDBClient など)
+   * @param options 接続先の指定
+   */
+  public static async getClient<C>(clientClass: AWSClientClass<C>, options: AWSClientOptions = {}): Promise<C> {
+    const injected = this.injectedClients.get(clientClass);
+
+    if (injected) {
+      return injected as C;
+    }
+
+    const config = options.endpoint ? this.getEndpointConfig(options.endpoint) : await this.resolveConfig();
+    const key = `${config.endpoint || ''}:${config.region}:${config.credentials?.accessKeyId || ''}`;
+
+    if (!this.clients.has(clientClass)) {
+      this.clients.set(clientClass, new Map());
+    }
+
+    const clients = this.clients.get(clientClass)!;
+
+    if (!clients.has(key)) {
+      clients.set(key, new clientClass(config));
+    }
+
+    return clients.get(key) as C;
+  }
+
+  /**
+   * getClient が返すクライアントを差し替える。テストや接続先の切り替えに使用する。
+   */
+  public static setClient<C>(clientClass: AWSClientClass<C>, client: C): void {
+    this.injectedClients.set(clientClass, client);
+  }
+
+  /**
+   * 生成済み・差し替え済みのクライアントをすべて破棄する。
+   */
+  public static reset(): void {
+    this.clients.clear();
+    this.injectedClients.clear();
+  }
+
+  private static getEndpointConfig(endpoint: string): AWSClientConfig {
+    return {
+      region: process.env.PROJECT_AWS_REGION || 'local',
+      endpoint,
+      credentials: ENDPOINT_CREDENTIALS,
+    };
+  }
+
+  // ローカル環境では Secrets Manager の認証情報を、それ以外ではデフォルトの認証情報プロバイダを使用する
+  private static async resolveConfig(): Promise<AWSClientConfig> {
+    const secretName = process.env.PROJECT_SECRET!;
+    const region = await SecretsManagerUtil.getSecretValue(secretName, 'AWS_REGION');
+
+    if (process.env.PROCESS_ENV !== 'local') {
+      return { region };
+    }
+
+    return {
+      region,
+      credentials: {
+        accessKeyId: await SecretsManagerUtil.getSecretValue(secretName, 'AWS_ACCESS_KEY'),
+        secretAccessKey: await SecretsManagerUtil.getSecretValue(secretName, 'AWS_SECRET_ACCESS_KEY')
+      }
+    };
+  }
+}
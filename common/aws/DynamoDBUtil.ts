@@ -2,7 +2,7 @@ import { DynamoDBClient, ScanCommand, PutItemCommand, UpdateItemCommand, DeleteI
 import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
 
 import ErrorUtil from '@common/utils/ErrorUtil';
-import SecretsManagerUtil from '@common/aws/SecretsManagerUtil';
+import AWSClientFactory from '@common/aws/AWSClientFactory';
 import { RecordTypeBase } from '@common/aws/interfaces/DynamoDB/RecordTypeBase';
 
 /**
@@ -10,27 +10,11 @@ import { RecordTypeBase } from '@common/aws/interfaces/DynamoDB/RecordTypeBase';
  */
 export default class DynamoDBUtil {
   /**
-   * Creates a DynamoDBClient based on the environment.
-   * If the environment is 'local', it uses credentials from AWS Secrets Manager.
-   * Otherwise, it uses the default credentials provider chain.
+   * Returns the shared DynamoDBClient.
    * @returns {DynamoDBClient} The configured DynamoDBClient.
    */
   private static async getDynamoClient(): Promise<DynamoDBClient> {
-    const secretName = process.env.PROJECT_SECRET!;
-
-    if (process.env.PROCESS_ENV !== 'local') {
-      return new DynamoDBClient({
-        region: await SecretsManagerUtil.getSecretValue(secretName, 'AWS_REGION'),
-      });
-    }
-
-    return new DynamoDBClient({
-      region: await SecretsManagerUtil.getSecretValue(secretName, 'AWS_REGION'),
-      credentials: {
-        accessKeyId: await SecretsManagerUtil.getSecretValue(secretName, 'AWS_ACCESS_KEY'),
-        secretAccessKey: await SecretsManagerUtil.getSecretValue(secretName, 'AWS_SECRET_ACCESS_KEY')
-      }
-    });
+    return await AWSClientFactory.getClient(DynamoDBClient, { endpoint: process.env.PROJECT_DYNAMODB_ENDPOINT });
   }
 
   /**
@@ -0,0 +1,15 @@
+/**
+ * DataType をパーティションキーとするグローバルセカンダリインデックス名
+ */
+export const DATA_TYPE_INDEX_NAME = 'DataType-index';
+
+/**
+ * 子レコードの DataType (`<子の DataType>#<子 ID>`) の区切り文字
+ */
+export const CHILD_KEY_SEPARATOR = '#';
+
+/**
+ * 監査ログの DataType (`Audit:<対象の DataType>:<日時>:<UUID>`) の接頭辞
+ * 監査ログと区別できなくなるため、この接頭辞で始まる種類の子レコードは作成できない。
+ */
+export const AUDIT_DATA_TYPE_PREFIX = 'Audit:';
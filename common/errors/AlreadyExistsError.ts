@@ -0,0 +1,6 @@
+export class AlreadyExistsError extends Error {
+  constructor(message?: string) {
+    super(message);
+    this.name = 'AlreadyExistsError';
+  }
+}
@@ -0,0 +1,6 @@
+export class ConflictError extends Error {
+  constructor(message?: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
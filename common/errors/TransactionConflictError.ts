@@ -0,0 +1,20 @@
+import { ConflictError } from '@common/errors/ConflictError';
+
+export type TransactionStepOperation = 'put' | 'update' | 'delete' | 'restore' | 'purge' | 'conditionCheck';
+
+export interface TransactionFailedStep {
+  index: number; // トランザクションに追加した順序 (0 始まり)
+  operation: TransactionStepOperation;
+  dataType: string;
+  id: string;
+}
+
+export class TransactionConflictError extends ConflictError {
+  public readonly failedSteps: TransactionFailedStep[];
+
+  constructor(message: string, failedSteps: TransactionFailedStep[]) {
+    super(message);
+    this.name = 'TransactionConflictError';
+    this.failedSteps = failedSteps;
+  }
+}
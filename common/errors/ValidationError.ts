@@ -0,0 +1,12 @@
+import { BadRequestError } from '@common/errors/BadRequestError';
+import { FieldViolation } from '@common/interfaces/validation/RecordSchema';
+
+export class ValidationError extends BadRequestError {
+  public readonly violations: FieldViolation[];
+
+  constructor(violations: FieldViolation[]) {
+    super(`Validation failed: ${violations.map(violation => `${violation.path} ${violation.message}`).join(', ')}`);
+    this.name = 'ValidationError';
+    this.violations = violations;
+  }
+}
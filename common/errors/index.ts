@@ -1,3 +1,7 @@
 export * from '@common/errors/BadRequestError';
 export * from '@common/errors/UnauthorizedError';
 export * from '@common/errors/NotFoundError';
+export * from '@common/errors/ConflictError';
+export * from '@common/errors/AlreadyExistsError';
+export * from '@common/errors/TransactionConflictError';
+export * from '@common/errors/ValidationError';
@@ -0,0 +1,10 @@
+import { DataTypeBase } from '@common/interfaces/data/DataTypeBase';
+import { AuditChange, AuditOperation } from '@common/interfaces/record/AuditRecordType';
+
+export interface AuditDataType extends DataTypeBase {
+  targetId: string;
+  actorId: string | null;
+  operation: AuditOperation;
+  changes: Record<string, AuditChange>;
+  timestamp: number;
+}
@@ -3,4 +3,5 @@ import { DataTypeBase } from "@common/interfaces/data/DataTypeBase";
 export interface AuthDataType extends DataTypeBase {
   name: string;
   googleUserId: string;
+  version: number;
 }
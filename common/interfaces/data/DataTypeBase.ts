@@ -2,4 +2,5 @@ export interface DataTypeBase {
   id: string;
   create: number;
   update: number;
+  version?: number;
 }
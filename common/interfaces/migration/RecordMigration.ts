@@ -0,0 +1,27 @@
+/**
+ * レコード形式の移行処理
+ * version は移行後の SchemaVersion で、DataType ごとに 1 から昇順に定義する。
+ *
+ * @example
+ * { version: 1, up: record => ({ ...record, Roles: record.Roles || [] }) }
+ */
+export interface RecordMigration {
+  version: number;
+  description?: string;
+  /**
+   * 1 つ前のバージョンの形式のレコードを受け取り、このバージョンの形式に変換して返す。
+   * 引数のレコードは変更せず、新しいオブジェクトを返すこと。
+   */
+  up: (record: Record<string, any>) => Record<string, any>;
+}
+
+export interface MigrationProgress {
+  scanned: number; // 読み込んだレコード数
+  migrated: number; // 移行した (dry-run の場合は移行対象の) レコード数
+  failed: number;
+}
+
+export interface MigrationResult extends MigrationProgress {
+  dryRun: boolean;
+  errors: { id: string; error: Error }[];
+}
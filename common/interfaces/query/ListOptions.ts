@@ -0,0 +1,27 @@
+/**
+ * 作成日時 (Create) の昇順・降順
+ */
+export type SortOrder = 'asc' | 'desc';
+
+export interface ListOptions {
+  /**
+   * 1 ページあたりの最大件数
+   */
+  limit?: number;
+  /**
+   * 前のページの nextCursor。未指定の場合は先頭のページを返す。
+   */
+  cursor?: string;
+  /**
+   * 作成日時の順序
+   */
+  sort?: SortOrder;
+}
+
+export interface ListResult<T> {
+  items: T[];
+  /**
+   * 次のページを取得するためのカーソル。最後のページの場合は undefined。
+   */
+  nextCursor?: string;
+}
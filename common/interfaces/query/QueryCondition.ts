@@ -0,0 +1,32 @@
+type ElementType<V> = V extends (infer E)[] ? E : V extends Set<infer E> ? E : V;
+
+/**
+ * 属性ごとに指定できる比較演算子
+ */
+export interface QueryOperators<V> {
+  eq?: V;
+  ne?: V;
+  lt?: V;
+  lte?: V;
+  gt?: V;
+  gte?: V;
+  begins_with?: string;
+  between?: [V, V];
+  contains?: ElementType<V>;
+  in?: V[];
+  exists?: boolean;
+}
+
+export type QueryOperatorName = keyof QueryOperators<unknown>;
+
+/**
+ * レコードの属性に対する検索条件
+ * 値を直接指定した場合は eq として扱い、複数の属性を指定した場合は AND で結合する。
+ *
+ * @example
+ * { TerminalID: 'x' }
+ * { Name: { begins_with: 'A' }, Create: { between: [from, to] } }
+ */
+export type QueryCondition<T> = {
+  [K in keyof T]?: NonNullable<T[K]> | QueryOperators<NonNullable<T[K]>>;
+};
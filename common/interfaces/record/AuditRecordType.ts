@@ -0,0 +1,16 @@
+import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+
+export type AuditOperation = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+export interface AuditChange {
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditRecordType extends RecordTypeBase {
+  TargetID: string; // 変更されたレコードの ID
+  ActorID: string | null; // AuditContext で指定された操作者、未指定の場合は null
+  Operation: AuditOperation;
+  Changes: Record<string, AuditChange>; // 変更された属性ごとの変更前後の値
+  Timestamp: number;
+}
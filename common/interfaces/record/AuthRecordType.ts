@@ -4,4 +4,5 @@ export interface AuthRecordType extends RecordTypeBase {
   DataType: 'Auth';
   Name: string;
   GoogleUserID: string;
+  Version?: number | null; // 楽観的排他制御用、書き込みのたびにインクリメント
 }
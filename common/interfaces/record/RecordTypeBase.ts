@@ -3,4 +3,8 @@ export interface RecordTypeBase {
   DataType?: string | null; // Sort Key
   Create?: number | null;
   Update?: number | null;
+  Version?: number | null; // 楽観的排他制御用、書き込みのたびにインクリメント
+  Deleted?: number | null; // 論理削除日時、論理削除が有効な DataAccessor でのみ使用
+  ExpiresAt?: number | null; // TTL 失効日時 (エポック秒)、TTL ポリシーを持つ DataAccessor でのみ使用
+  SchemaVersion?: number | null; // レコード形式のバージョン、移行処理が登録された DataType でのみ使用
 }
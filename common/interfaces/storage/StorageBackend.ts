@@ -0,0 +1,162 @@
+import { QueryCondition } from '@common/interfaces/query/QueryCondition';
+import { SortOrder } from '@common/interfaces/query/ListOptions';
+import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+import { RecordUpdates } from '@common/services/storage/UpdateOperation';
+
+/**
+ * 取得する属性。指定した場合、結果のレコードはこれらの属性のみを持つ。
+ */
+export type ProjectionAttributes<T> = (keyof T & string)[];
+
+export interface PageOptions {
+  /**
+   * 1 リクエストあたりの評価件数
+   */
+  limit: number;
+  /**
+   * 前のページの lastEvaluatedKey
+   */
+  exclusiveStartKey?: Record<string, unknown>;
+  /**
+   * 作成日時 (Create) の順序
+   */
+  sort?: SortOrder;
+}
+
+export interface Page<T> {
+  items: T[];
+  /**
+   * 続きがある場合の最後に評価したキー。次のページの exclusiveStartKey に指定する。
+   */
+  lastEvaluatedKey?: Record<string, unknown>;
+}
+
+export interface ConditionalWriteOptions {
+  /**
+   * 書き込み対象レコードの期待する Version。
+   * 指定した場合、保存済みの Version と一致しなければ ConflictError をスローする。
+   */
+  expectedVersion?: number;
+}
+
+export interface TtlPolicy {
+  /**
+   * 基準日時から失効までの秒数
+   */
+  expiresAfter: number;
+  /**
+   * 失効日時の基準。'Update' の場合は更新のたびに失効日時を延長する。
+   */
+  basis: 'Create' | 'Update';
+}
+
+export interface UpdateOptions extends ConditionalWriteOptions {
+  /**
+   * 指定した場合、ポリシーに従って ExpiresAt を書き込む。
+   */
+  ttl?: TtlPolicy;
+  /**
+   * true の場合、論理削除されたレコード (Deleted あり) は存在しないものとして扱い、更新せずに null を返す。
+   */
+  excludeDeleted?: boolean;
+}
+
+/**
+ * 更新後に返す内容。
+ * - ALL_NEW: 更新後のレコード
+ * - ALL_OLD: 更新前のレコード
+ * - UPDATED_OLD: 更新した属性の更新前の値のみ
+ */
+export type UpdateReturnValues = 'ALL_NEW' | 'ALL_OLD' | 'UPDATED_OLD';
+
+export type UpdateResult<T, R extends UpdateReturnValues> = R extends 'UPDATED_OLD' ? Partial<T> : T;
+
+export interface ReturnValuesOptions<R extends UpdateReturnValues> {
+  /**
+   * 更新後に返す内容。省略時は ALL_NEW。
+   */
+  returnValues?: R;
+}
+
+export interface CreateOptions {
+  /**
+   * 作成するレコードの ID。未指定の場合は UUID を生成する。
+   */
+  id?: string;
+  /**
+   * true の場合、同じ ID / DataType のレコードが既に存在すれば上書きせず AlreadyExistsError をスローする。
+   */
+  ifNotExists?: boolean;
+  /**
+   * 指定した場合、ポリシーに従って ExpiresAt を書き込む。
+   */
+  ttl?: TtlPolicy;
+}
+
+/**
+ * DataAccessorBase が使用するレコードの保存先。
+ * レコードは ID と DataType の組み合わせで一意に識別する (DynamoDB のパーティションキー・ソートキーに相当)。
+ *
+ * 実装:
+ * - DynamoDBService: DynamoDB の単一テーブル
+ * - InMemoryStorageBackend: プロセス内のメモリ (テスト・開発用)
+ */
+export interface StorageBackend<T extends RecordTypeBase> {
+  getTableName(): string;
+
+  getAllByDataType(dataTypeValue: string, projection?: ProjectionAttributes<T>): Promise<T[]>;
+
+  /**
+   * DataType を指定して、結果をページ単位で順次返す。
+   */
+  iterateByDataType(dataTypeValue: string, pageSize?: number): AsyncGenerator<T[]>;
+
+  find(dataTypeValue: string, condition: QueryCondition<T>, projection?: ProjectionAttributes<T>): Promise<T[]>;
+
+  /**
+   * find の結果をページ単位で順次返す。
+   */
+  iterateFind(
+    dataTypeValue: string,
+    condition: QueryCondition<T>,
+    pageSize?: number,
+    projection?: ProjectionAttributes<T>
+  ): AsyncGenerator<T[]>;
+
+  /**
+   * 検索結果のうち、作成日時の順に 1 ページ分を返す。
+   * 条件は件数で区切った後に評価するため、続きがあっても items が limit 件に満たない場合がある。
+   */
+  findPage(dataTypeValue: string, condition: QueryCondition<T>, options: PageOptions): Promise<Page<T>>;
+
+  /**
+   * ID が一致し、DataType が指定の文字列で始まるレコードを DataType の昇順で返す。
+   */
+  findByDataTypePrefix(id: string, dataTypePrefix: string): Promise<T[]>;
+
+  getById(id: string, dataType?: string, projection?: ProjectionAttributes<T>): Promise<T | null>;
+
+  batchGetByIds(ids: string[], dataType: string): Promise<T[]>;
+
+  /**
+   * ID・Create・Update・Version (1) を付与してレコードを作成する。
+   */
+  create(creates: Partial<T>, options?: CreateOptions): Promise<T>;
+
+  batchCreate(creates: Partial<T>[], options?: Pick<CreateOptions, 'ttl'>): Promise<T[]>;
+
+  /**
+   * 既存のレコードを更新し、Update を現在日時に、Version をインクリメントする。
+   * レコードが存在しない場合は作成せずに null を返す。
+   */
+  update<R extends UpdateReturnValues = 'ALL_NEW'>(
+    id: string,
+    dataType: string,
+    updates: RecordUpdates<T>,
+    options?: UpdateOptions & ReturnValuesOptions<R>
+  ): Promise<UpdateResult<T, R> | null>;
+
+  delete(id: string, dataType: string, options?: ConditionalWriteOptions): Promise<void>;
+
+  batchDelete(ids: string[], dataType: string): Promise<void>;
+}
@@ -0,0 +1,78 @@
+import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+
+export type StreamEventName = 'INSERT' | 'MODIFY' | 'REMOVE';
+
+/**
+ * Lambda が受け取る DynamoDB Streams のイベント (必要な項目のみ)
+ * イメージは DynamoDB JSON 形式 (Binary は base64 文字列)。
+ */
+export interface DynamoDBStreamEvent {
+  Records: DynamoDBStreamRecord[];
+}
+
+export interface DynamoDBStreamRecord {
+  eventID?: string;
+  eventName?: StreamEventName;
+  eventSource?: string;
+  dynamodb?: {
+    Keys?: Record<string, Record<string, unknown>>;
+    NewImage?: Record<string, Record<string, unknown>>;
+    OldImage?: Record<string, Record<string, unknown>>;
+    SequenceNumber?: string;
+    ApproximateCreationDateTime?: number;
+  };
+  /**
+   * TTL による削除の場合は `{ type: 'Service', principalId: 'dynamodb.amazonaws.com' }`
+   */
+  userIdentity?: {
+    type?: string;
+    principalId?: string;
+  };
+}
+
+/**
+ * ReportBatchItemFailures を有効にした Lambda の戻り値
+ * itemIdentifier には失敗したレコードの SequenceNumber を指定する。
+ */
+export interface StreamBatchResponse {
+  batchItemFailures: { itemIdentifier: string }[];
+}
+
+interface StreamChangeBase {
+  eventID?: string;
+  sequenceNumber?: string;
+  id: string;
+  dataType: string;
+}
+
+export interface InsertChange<T extends RecordTypeBase> extends StreamChangeBase {
+  eventName: 'INSERT';
+  newImage: T;
+}
+
+export interface ModifyChange<T extends RecordTypeBase> extends StreamChangeBase {
+  eventName: 'MODIFY';
+  newImage: T;
+  oldImage: T;
+}
+
+export interface RemoveChange<T extends RecordTypeBase> extends StreamChangeBase {
+  eventName: 'REMOVE';
+  oldImage: T;
+  /**
+   * TTL による削除の場合は true
+   */
+  expired: boolean;
+}
+
+export type StreamChange<T extends RecordTypeBase> = InsertChange<T> | ModifyChange<T> | RemoveChange<T>;
+
+/**
+ * DataType ごとの変更の処理
+ * 例外をスローした場合、そのレコード以降をバッチの失敗として報告する。
+ */
+export interface StreamHandlers<T extends RecordTypeBase> {
+  insert?: (change: InsertChange<T>) => Promise<void> | void;
+  modify?: (change: ModifyChange<T>) => Promise<void> | void;
+  remove?: (change: RemoveChange<T>) => Promise<void> | void;
+}
@@ -0,0 +1,49 @@
+export type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+/**
+ * 属性ごとの検証ルール
+ */
+export interface FieldRule {
+  type: FieldType;
+  /**
+   * true の場合、作成時に値が必須となり、更新で null (削除) にすることもできない。
+   */
+  required?: boolean;
+  /**
+   * string / array の長さの下限・上限
+   */
+  minLength?: number;
+  maxLength?: number;
+  /**
+   * number の下限・上限
+   */
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  /**
+   * object の各プロパティの検証ルール
+   */
+  properties?: Record<string, FieldRule>;
+  /**
+   * array の各要素の検証ルール
+   */
+  items?: FieldRule;
+}
+
+/**
+ * レコードの検証スキーマ
+ *
+ * @example
+ * { Name: { type: 'string', required: true, minLength: 1 } }
+ */
+export type RecordSchema<T> = {
+  [K in keyof T]?: FieldRule;
+};
+
+export interface FieldViolation {
+  /**
+   * 違反した属性のパス (例: Subscription.keys.auth)
+   */
+  path: string;
+  message: string;
+}
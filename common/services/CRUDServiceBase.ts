@@ -1,21 +1,49 @@
 import CacheUtil from '@common/utils/CacheUtil';
+import CursorUtil from '@common/utils/CursorUtil';
 import DataAccessorBase from '@common/services/DataAccessorBase';
+import InMemoryStorageBackend from '@common/services/storage/InMemoryStorageBackend';
+import { ConditionalWriteOptions, CreateOptions } from '@common/interfaces/storage/StorageBackend';
+import { AttributeUpdates, RecordUpdates } from '@common/services/storage/UpdateOperation';
 import { DataTypeBase } from '@common/interfaces/data/DataTypeBase';
 import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
-import { NotFoundError } from '@common/errors';
+import { ListOptions, ListResult, SortOrder } from '@common/interfaces/query/ListOptions';
+import { AlreadyExistsError, BadRequestError, ConflictError, NotFoundError, TransactionConflictError } from '@common/errors';
+import { AuditDataAccessor, AuditedWrite } from '@common/services/audit/AuditDataAccessor';
+import { AuditDataType } from '@common/interfaces/data/AuditDataType';
+import { AuditRecordType } from '@common/interfaces/record/AuditRecordType';
+
+interface ListCursor {
+  // 発行したサービス (テーブル・DataType・キャッシュの有無) と順序。異なる一覧のカーソルは受け付けない
+  scope: string;
+  sort: SortOrder;
+  // キャッシュ有効時は最後に返したデータの create / id、無効時は DynamoDB の LastEvaluatedKey
+  key: Record<string, unknown>;
+}
 
 export default abstract class CRUDServiceBase<DataType extends DataTypeBase, RecordType extends RecordTypeBase> {
+  private static readonly DEFAULT_LIST_LIMIT = 20;
+
   protected readonly dataAccessor: DataAccessorBase<RecordType>;
-  private readonly useCache: boolean;
+  protected readonly useCache: boolean;
   private readonly cacheKey: string;
+  private readonly auditDataAccessor?: AuditDataAccessor;
 
+  /**
+   * @param audit true の場合、作成・更新・削除のたびに監査ログ (ID: 対象の ID, DataType: Audit:<DataType>:<日時>:<UUID>) を保存する。
+   * DynamoDB では書き込みと監査ログを 1 つのトランザクションで保存する。操作者は AuditContext.run で指定する。
+   */
   protected constructor(
     dataAccessor: DataAccessorBase<RecordType>,
-    useCache: boolean = true
+    useCache: boolean = true,
+    audit: boolean = false
   ) {
     this.dataAccessor = dataAccessor;
     this.useCache = useCache;
     this.cacheKey = `${this.dataAccessor.getTableName()}_${this.dataAccessor.getDataType()}`;
+
+    if (audit) {
+      this.auditDataAccessor = new AuditDataAccessor(dataAccessor);
+    }
   }
 
   public async get(): Promise<DataType[]> {
@@ -49,29 +77,209 @@ export default abstract class CRUDServiceBase<DataType extends DataTypeBase, Rec
     return this.recordToData(data);
   }
 
-  public async create(creates: Partial<DataType>): Promise<DataType> {
-    const data = await this.dataAccessor.create(this.dataToRecord(creates));
+  /**
+   * データを 1 ページずつ取得する。キャッシュの有無に関わらず、作成日時の順に同じ形式で返す。
+   * 続きがある場合は nextCursor を次の呼び出しの cursor に指定する (不正なカーソルは BadRequestError)。
+   * キャッシュ無効時は、続きがあっても items が limit 件に満たない場合がある。
+   * キャッシュ無効時に DataType 用 GSI のない DynamoDBService を使用している場合は、全件を Scan して並べ替える。
+   */
+  public async list(options: ListOptions = {}): Promise<ListResult<DataType>> {
+    const { limit = CRUDServiceBase.DEFAULT_LIST_LIMIT, sort = 'asc' } = options;
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new BadRequestError(`Invalid limit: ${limit}`);
+    }
+
+    const key = options.cursor ? this.decodeListCursor(options.cursor, sort) : undefined;
+
+    if (this.useCache) {
+      return await this.listCache(limit, sort, key as Pick<DataType, 'id' | 'create'> | undefined);
+    }
+
+    // キャッシュ有効時と同じく作成日時の順に取得する (DynamoDB では DataType 用 GSI を使用する)
+    const page = await this.dataAccessor.getPage({ limit, exclusiveStartKey: key, sort });
+
+    return {
+      items: page.items.map(this.recordToData),
+      nextCursor: page.lastEvaluatedKey && this.encodeListCursor(sort, page.lastEvaluatedKey),
+    };
+  }
+
+  /**
+   * データを作成する。
+   * options.id で ID を指定でき、options.ifNotExists を指定すると既存データを上書きせず AlreadyExistsError をスローする。
+   */
+  public async create(creates: Partial<DataType>, options?: CreateOptions): Promise<DataType> {
+    const data = await this.createRecord(this.dataToRecord(creates), options);
     const item = this.recordToData(data);
 
     if (this.useCache) {
       const cachedData = await this.getCache();
-      cachedData.push(item);
+      const index = cachedData.findIndex(i => i.id === item.id);
+
+      // ID 指定で既存データを上書きした場合は置き換える
+      if (index !== -1) {
+        cachedData[index] = item;
+      } else {
+        cachedData.push(item);
+      }
+
       CacheUtil.set(this.cacheKey, cachedData);
     }
 
     return item;
   }
 
-  public async update(id: string, updates: Partial<DataType>): Promise<DataType> {
-    const data = await this.dataAccessor.update(id, this.dataToRecord(updates));
+  /**
+   * 複数のデータをまとめて作成する。
+   */
+  public async createMany(creates: Partial<DataType>[]): Promise<DataType[]> {
+    const records = creates.map(create => this.dataToRecord(create));
+    const data: RecordType[] = [];
+
+    // 監査モードでは監査ログとまとめて保存するため、1 件ずつ作成する
+    if (this.auditDataAccessor) {
+      for (const record of records) {
+        data.push(await this.createRecord(record));
+      }
+    } else {
+      data.push(...await this.dataAccessor.batchCreate(records));
+    }
+
+    const items = data.map(this.recordToData);
+
+    if (this.useCache) {
+      // キャッシュが空の場合は作成後のデータで読み込まれるため、重複しないようにする
+      const cachedData = await this.getCache();
+      const cachedIds = new Set(cachedData.map(i => i.id));
+      cachedData.push(...items.filter(i => !cachedIds.has(i.id)));
+      CacheUtil.set(this.cacheKey, cachedData);
+    }
+
+    return items;
+  }
+
+  /**
+   * 指定 ID のデータを更新する。
+   * options.expectedVersion を指定した場合、保存済みの Version と一致しなければ ConflictError をスローする。
+   * 監査モードでは、変更前に取得したデータから他の書き込みで変更されていた場合も ConflictError をスローする。
+   * データが存在しない場合は NotFoundError をスローする。
+   * 値に UpdateOperation を指定した場合は dataToRecord で値をそのまま受け渡すこと。
+   * 入れ子の属性のパス指定は dataToRecord で変換できないため、updateRecord を使用する。
+   */
+  public async update(id: string, updates: AttributeUpdates<DataType>, options?: ConditionalWriteOptions): Promise<DataType> {
+    return await this.updateRecord(id, this.dataToRecord(updates as Partial<DataType>) as RecordUpdates<RecordType>, options);
+  }
+
+  /**
+   * レコードの形式で指定 ID のデータを更新する。
+   * 入れ子の属性のパス指定 (例: 'Subscription.keys.auth') など、dataToRecord を経由できない更新に使用する。
+   */
+  protected async updateRecord(
+    id: string,
+    updates: RecordUpdates<RecordType>,
+    options?: ConditionalWriteOptions
+  ): Promise<DataType> {
+    const data = await this.withConflictHandling(() => this.writeWithAudit(id, false, before => ({
+      operation: 'update',
+      before,
+      transact: async transaction => {
+        transaction.update(this.dataAccessor, id, updates, this.pinVersion(before, options));
+        return await this.applyUpdates(before, updates);
+      },
+      write: () => this.dataAccessor.update(id, updates, this.pinVersion(before, options)),
+    }), () => this.dataAccessor.update(id, updates, options)));
 
     if (!data) {
-      throw new Error(`Failed to update item with id: ${id}`);
+      throw new NotFoundError(`Item not found with id: ${id}`);
     }
 
     const item = this.recordToData(data);
 
+    // 論理削除されたレコードはキャッシュに含めない
+    if (this.useCache && (data.Deleted === undefined || data.Deleted === null)) {
+      const cachedData = await this.getCache();
+      const index = cachedData.findIndex(i => i.id === item.id);
+
+      if (index !== -1) {
+        cachedData[index] = item;
+      } else {
+        cachedData.push(item);
+      }
+
+      CacheUtil.set(this.cacheKey, cachedData);
+    }
+
+    return item;
+  }
+
+  public async delete(id: string, options?: ConditionalWriteOptions): Promise<void> {
+    await this.withConflictHandling(() => this.writeWithAudit(id, false, before => ({
+      operation: 'delete',
+      before,
+      transact: async transaction => {
+        transaction.delete(this.dataAccessor, id, this.pinVersion(before, options));
+        return null;
+      },
+      write: async () => {
+        await this.dataAccessor.delete(id, this.pinVersion(before, options));
+        return null;
+      },
+    }), async () => {
+      await this.dataAccessor.delete(id, options);
+      return null;
+    }));
+
     if (this.useCache) {
+      const cachedData = await this.getCache();
+      const updatedData = cachedData.filter(i => i.id !== id);
+      CacheUtil.set(this.cacheKey, updatedData);
+    }
+  }
+
+  /**
+   * 複数のデータをまとめて削除する。
+   */
+  public async deleteMany(ids: string[]): Promise<void> {
+    // 監査モードでは監査ログとまとめて保存するため、1 件ずつ削除する
+    if (this.auditDataAccessor) {
+      for (const id of ids) {
+        await this.delete(id);
+      }
+    } else {
+      await this.dataAccessor.batchDelete(ids);
+    }
+
+    if (this.useCache) {
+      const deletedIds = new Set(ids);
+      const cachedData = await this.getCache();
+      const updatedData = cachedData.filter(i => !deletedIds.has(i.id));
+      CacheUtil.set(this.cacheKey, updatedData);
+    }
+  }
+
+  /**
+   * 論理削除したデータを復元する。DataAccessor で論理削除が有効な場合のみ使用できる。
+   */
+  public async restore(id: string, options?: ConditionalWriteOptions): Promise<DataType> {
+    const data = await this.withConflictHandling(() => this.writeWithAudit(id, true, before => ({
+      operation: 'restore',
+      before,
+      transact: async transaction => {
+        transaction.restore(this.dataAccessor, id, this.pinVersion(before, options));
+        return await this.applyUpdates(before, { Deleted: null } as RecordUpdates<RecordType>);
+      },
+      write: () => this.dataAccessor.restore(id, this.pinVersion(before, options)),
+    }), () => this.dataAccessor.restore(id, options)));
+
+    if (!data) {
+      throw new NotFoundError(`Item not found with id: ${id}`);
+    }
+
+    const item = this.recordToData(data);
+
+    // 論理削除されたレコードはキャッシュに含めない
+    if (this.useCache && (data.Deleted === undefined || data.Deleted === null)) {
       const cachedData = await this.getCache();
       const index = cachedData.findIndex(i => i.id === item.id);
 
@@ -87,8 +295,25 @@ export default abstract class CRUDServiceBase<DataType extends DataTypeBase, Rec
     return item;
   }
 
-  public async delete(id: string): Promise<void> {
-    await this.dataAccessor.delete(id);
+  /**
+   * 論理削除の設定に関わらず、データを物理削除する。
+   */
+  public async purge(id: string, options?: ConditionalWriteOptions): Promise<void> {
+    await this.withConflictHandling(() => this.writeWithAudit(id, true, before => ({
+      operation: 'purge',
+      before,
+      transact: async transaction => {
+        transaction.purge(this.dataAccessor, id, this.pinVersion(before, options));
+        return null;
+      },
+      write: async () => {
+        await this.dataAccessor.purge(id, this.pinVersion(before, options));
+        return null;
+      },
+    }), async () => {
+      await this.dataAccessor.purge(id, options);
+      return null;
+    }));
 
     if (this.useCache) {
       const cachedData = await this.getCache();
@@ -97,6 +322,19 @@ export default abstract class CRUDServiceBase<DataType extends DataTypeBase, Rec
     }
   }
 
+  /**
+   * 指定 ID のデータの変更履歴を古い順に取得する。監査モードが有効な場合のみ使用できる。
+   */
+  public async getHistory(id: string): Promise<AuditDataType[]> {
+    if (!this.auditDataAccessor) {
+      throw new Error(`Audit is not enabled for DataType: ${this.dataAccessor.getDataType()}`);
+    }
+
+    const records = await this.auditDataAccessor.getHistory(id);
+
+    return records.map(record => this.auditRecordToData(record));
+  }
+
   public async syncCache(): Promise<void> {
     if (!this.useCache) {
       return;
@@ -112,6 +350,141 @@ export default abstract class CRUDServiceBase<DataType extends DataTypeBase, Rec
 
   protected abstract recordToData(record: RecordType): DataType;
 
+  // キャッシュ上の位置ではなく最後に返したデータの後ろから返すため、ページ間で追加・削除されても重複しない
+  private async listCache(
+    limit: number,
+    sort: SortOrder,
+    key?: Pick<DataType, 'id' | 'create'>
+  ): Promise<ListResult<DataType>> {
+    const direction = sort === 'desc' ? -1 : 1;
+    const compare = (a: Pick<DataType, 'id' | 'create'>, b: Pick<DataType, 'id' | 'create'>) =>
+      direction * (a.create - b.create || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+    const sortedData = [...await this.getCache()].sort(compare);
+    const start = key ? sortedData.findIndex(item => compare(item, key) > 0) : 0;
+    const items = start === -1 ? [] : sortedData.slice(start, start + limit);
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      nextCursor: start !== -1 && start + limit < sortedData.length
+        ? this.encodeListCursor(sort, { id: last.id, create: last.create })
+        : undefined,
+    };
+  }
+
+  private getListScope(): string {
+    return `${this.cacheKey}:${this.useCache ? 'cache' : 'dynamodb'}`;
+  }
+
+  private encodeListCursor(sort: SortOrder, key: Record<string, unknown>): string {
+    const cursor: ListCursor = { scope: this.getListScope(), sort, key };
+    return CursorUtil.encode(cursor);
+  }
+
+  private decodeListCursor(cursor: string, sort: SortOrder): Record<string, unknown> {
+    const decoded = CursorUtil.decode<ListCursor>(cursor);
+
+    if (decoded.scope !== this.getListScope() || decoded.sort !== sort || typeof decoded.key !== 'object' || decoded.key === null) {
+      throw new BadRequestError('Invalid cursor');
+    }
+
+    return decoded.key;
+  }
+
+  // 競合時はキャッシュが古い可能性があるため破棄してから再スローする
+  private async withConflictHandling<R>(operation: () => Promise<R>): Promise<R> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (error instanceof ConflictError && this.useCache) {
+        CacheUtil.delete(this.cacheKey);
+      }
+      throw error;
+    }
+  }
+
+  private async createRecord(record: Partial<RecordType>, options?: CreateOptions): Promise<RecordType> {
+    if (!this.auditDataAccessor) {
+      return await this.dataAccessor.create(record, options);
+    }
+
+    const before = options?.id ? await this.dataAccessor.getById(options.id) : null;
+
+    try {
+      const data = await this.auditDataAccessor.write<RecordType>({
+        operation: 'create',
+        before,
+        transact: async transaction => {
+          const items = transaction.put(this.dataAccessor, record, options).getCreatedItems();
+          return items[items.length - 1] as RecordType;
+        },
+        write: () => this.dataAccessor.create(record, options),
+      });
+
+      return data!;
+    } catch (error) {
+      // トランザクションでは既存データとの競合を区別できないため、options.ifNotExists の違反として扱う
+      if (error instanceof TransactionConflictError && options?.ifNotExists) {
+        throw new AlreadyExistsError(`Item already exists with id: ${options.id}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 監査モードでは変更前のレコードを取得し、書き込みと監査ログを保存する (変更前のレコードがない場合は何も変更しない)。
+   * 監査モードでない場合は write をそのまま実行する。
+   */
+  private async writeWithAudit(
+    id: string,
+    includeDeleted: boolean,
+    auditedWrite: (before: RecordType) => AuditedWrite<RecordType>,
+    write: () => Promise<RecordType | null>
+  ): Promise<RecordType | null> {
+    if (!this.auditDataAccessor) {
+      return await write();
+    }
+
+    const before = await this.dataAccessor.getById(id, { includeDeleted });
+
+    if (!before) {
+      return null;
+    }
+
+    return await this.auditDataAccessor.write(auditedWrite(before));
+  }
+
+  // 差分が実際の変更と一致するよう、変更前に取得したレコードの Version を条件に書き込む
+  private pinVersion(before: RecordType, options?: ConditionalWriteOptions): ConditionalWriteOptions {
+    return {
+      ...options,
+      expectedVersion: options?.expectedVersion !== undefined ? options.expectedVersion : before.Version || 0,
+    };
+  }
+
+  // トランザクションでは変更後のレコードを取得できないため、変更前のレコードに更新内容を適用して求める
+  private async applyUpdates(before: RecordType, updates: RecordUpdates<RecordType>): Promise<RecordType> {
+    const backend = new InMemoryStorageBackend<RecordType>(this.dataAccessor.getTableName());
+    backend.putItem(before);
+
+    return (await backend.update(before.ID!, before.DataType!, updates, { ttl: this.dataAccessor.getTtlPolicy() }))!;
+  }
+
+  private auditRecordToData(record: AuditRecordType): AuditDataType {
+    // 監査ログは対象と同じ ID で保存するため、DataType で識別する
+    return {
+      id: record.DataType!,
+      create: record.Create || 0,
+      update: record.Update || 0,
+      targetId: record.TargetID,
+      actorId: record.ActorID,
+      operation: record.Operation,
+      changes: record.Changes,
+      timestamp: record.Timestamp,
+    };
+  }
+
   private async getCache(): Promise<DataType[]> {
     const cachedData = CacheUtil.get<DataType[]>(this.cacheKey);
 
@@ -1,44 +1,411 @@
-import DynamoDBService from '@common/services/aws/DynamoDBService';
+import {
+  ConditionalWriteOptions,
+  CreateOptions,
+  Page,
+  PageOptions,
+  ProjectionAttributes,
+  ReturnValuesOptions,
+  StorageBackend,
+  TtlPolicy,
+  UpdateResult,
+  UpdateReturnValues
+} from '@common/interfaces/storage/StorageBackend';
+import { QueryCondition } from '@common/interfaces/query/QueryCondition';
 import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+import { RecordSchema } from '@common/interfaces/validation/RecordSchema';
+import CommonUtil from '@common/utils/CommonUtil';
+import UpdateOperation, { RecordUpdates } from '@common/services/storage/UpdateOperation';
+import MigrationRegistry from '@common/services/migration/MigrationRegistry';
+import { AUDIT_DATA_TYPE_PREFIX, CHILD_KEY_SEPARATOR } from '@common/consts/DynamoDBConst';
+import ValidationUtil from '@common/utils/ValidationUtil';
+import { ValidationError } from '@common/errors';
+
+export interface DataAccessorOptions<T extends RecordTypeBase = RecordTypeBase> {
+  /**
+   * true の場合、delete は物理削除せず Deleted に削除日時を設定する (論理削除)。
+   * 論理削除されたレコードは get / getById / find の結果から除外される。
+   */
+  softDelete?: boolean;
+  /**
+   * 指定した場合、作成・更新時にポリシーに従って ExpiresAt (エポック秒) を書き込む。
+   * テーブル側で ExpiresAt を TTL 属性として有効にしておくこと。
+   */
+  ttl?: TtlPolicy;
+  /**
+   * 指定した場合、作成・更新前にレコードを検証し、違反があれば ValidationError (BadRequestError) をスローする。
+   */
+  schema?: RecordSchema<T>;
+}
+
+export interface ReadOptions {
+  /**
+   * true の場合、論理削除されたレコードも結果に含める。
+   */
+  includeDeleted?: boolean;
+}
+
+export interface ProjectionOptions<T, K extends keyof T & string> {
+  /**
+   * 取得する属性。指定した場合は指定した属性のみを取得し、移行処理 (SchemaVersion の更新) は行わない。
+   */
+  projection: K[];
+}
+
+type ProjectedReadOptions<T> = ReadOptions & Partial<ProjectionOptions<T, keyof T & string>>;
+
+export interface ChildKey {
+  childType: string;
+  childId: string;
+}
 
 export default abstract class DataAccessorBase<T extends RecordTypeBase> {
   private readonly dataType: string;
-  private readonly DynamoDBService: DynamoDBService<T>;
+  private readonly backend: StorageBackend<T>;
+  private readonly softDelete: boolean;
+  private readonly ttl?: TtlPolicy;
+  private readonly schema?: RecordSchema<T>;
 
+  /**
+   * @param backend レコードの保存先 (DynamoDB の場合は tableName の DynamoDBService)
+   */
   protected constructor(
     tableName: string,
     dataType: string,
-    dynamoDBService: DynamoDBService<T> = new DynamoDBService<T>(tableName)
+    backend: StorageBackend<T>,
+    options: DataAccessorOptions<T> = {}
   ) {
     this.dataType = dataType;
-    this.DynamoDBService = dynamoDBService;
+    this.backend = backend;
+    this.softDelete = options.softDelete === true;
+    this.ttl = options.ttl;
+    this.schema = options.schema;
   }
 
   public getTableName(): string {
-    return this.DynamoDBService.getTableName();
+    return this.backend.getTableName();
   }
 
   public getDataType(): string {
     return this.dataType;
   }
 
-  public async get(): Promise<T[]> {
-    return await this.DynamoDBService.getAllByDataType(this.dataType);
+  public getBackend(): StorageBackend<T> {
+    return this.backend;
+  }
+
+  public isSoftDeleteEnabled(): boolean {
+    return this.softDelete;
+  }
+
+  public getTtlPolicy(): TtlPolicy | undefined {
+    return this.ttl;
+  }
+
+  /**
+   * 子レコードの DataType (`<childType>#<childId>`) を生成する。
+   * 監査ログの接頭辞 (Audit:) で始まる種類は使用できない。
+   */
+  public static buildChildDataType(childType: string, childId: string): string {
+    if (!childType || childType.includes(CHILD_KEY_SEPARATOR) || childType.startsWith(AUDIT_DATA_TYPE_PREFIX)) {
+      throw new Error(`Invalid child type: ${childType}`);
+    }
+
+    return `${childType}${CHILD_KEY_SEPARATOR}${childId}`;
+  }
+
+  /**
+   * 子レコードの DataType を分解する。子レコードでない場合は null。
+   */
+  public static parseChildDataType(dataType: string): ChildKey | null {
+    const index = dataType.indexOf(CHILD_KEY_SEPARATOR);
+
+    if (index <= 0) {
+      return null;
+    }
+
+    return { childType: dataType.slice(0, index), childId: dataType.slice(index + 1) };
+  }
+
+  /**
+   * 親レコードと同じ ID の下に保存された子レコードを、子 ID の昇順で取得する。
+   * @param parentId 親レコードの ID
+   * @param childType 子レコードの種類 (例: Message)
+   */
+  public async getChildren<C extends RecordTypeBase>(parentId: string, childType: string): Promise<C[]> {
+    const prefix = DataAccessorBase.buildChildDataType(childType, '');
+    return await this.getChildService<C>().findByDataTypePrefix(parentId, prefix);
+  }
+
+  public async getChild<C extends RecordTypeBase>(parentId: string, childType: string, childId: string): Promise<C | null> {
+    return await this.getChildService<C>().getById(parentId, DataAccessorBase.buildChildDataType(childType, childId));
+  }
+
+  /**
+   * 子レコードを作成する。childId を省略した場合は UUID を採番する。
+   */
+  public async createChild<C extends RecordTypeBase>(
+    parentId: string,
+    childType: string,
+    creates: Partial<C>,
+    options: Omit<CreateOptions, 'id'> & { childId?: string } = {}
+  ): Promise<C> {
+    const { childId = CommonUtil.generateUUID(), ...createOptions } = options;
+
+    return await this.getChildService<C>().create(
+      { ...creates, DataType: DataAccessorBase.buildChildDataType(childType, childId) },
+      { ...createOptions, id: parentId }
+    );
+  }
+
+  public async updateChild<C extends RecordTypeBase, R extends UpdateReturnValues = 'ALL_NEW'>(
+    parentId: string,
+    childType: string,
+    childId: string,
+    updates: RecordUpdates<C>,
+    options?: ConditionalWriteOptions & ReturnValuesOptions<R>
+  ): Promise<UpdateResult<C, R> | null> {
+    return await this.getChildService<C>().update(parentId, DataAccessorBase.buildChildDataType(childType, childId), updates, options);
+  }
+
+  public async deleteChild(parentId: string, childType: string, childId: string, options?: ConditionalWriteOptions): Promise<void> {
+    await this.backend.delete(parentId, DataAccessorBase.buildChildDataType(childType, childId), options);
+  }
+
+  /**
+   * 新規作成するレコードに設定する SchemaVersion を返す。移行処理が未登録の場合は 0。
+   */
+  public getSchemaVersion(): number {
+    return MigrationRegistry.getLatestVersion(this.dataType);
+  }
+
+  /**
+   * 古い SchemaVersion のレコードを最新の形式に変換する。
+   * @param persist true の場合は変換結果を保存する (読み込み後に更新されていた場合は ConflictError)
+   * @returns 変換後のレコード (最新の場合は引数のレコード)
+   */
+  public async migrate(item: T, persist = true): Promise<T> {
+    const migrated = MigrationRegistry.migrate(this.dataType, item);
+
+    if (migrated === item || !persist) {
+      return migrated;
+    }
+
+    const updated = await this.backend.update(
+      item.ID!,
+      this.dataType,
+      this.getMigrationChanges(item, migrated),
+      { expectedVersion: item.Version || 0 }
+    );
+
+    return updated || migrated;
+  }
+
+  /**
+   * スキーマに従ってレコードを検証する。スキーマが未指定の場合は何もしない。
+   * @param partial true の場合 (更新時) は、指定された属性のみを検証する (UpdateOperation を指定した属性は検証しない)
+   */
+  public validate(record: Partial<T> | RecordUpdates<T>, partial = false): void {
+    if (!this.schema) {
+      return;
+    }
+
+    const values = Object.keys(record)
+      .filter(key => !((record as Record<string, unknown>)[key] instanceof UpdateOperation))
+      .reduce((result, key) => {
+        result[key] = (record as Record<string, unknown>)[key];
+        return result;
+      }, {} as Record<string, unknown>);
+
+    const violations = ValidationUtil.validate(values as Partial<T>, this.schema, partial);
+
+    if (violations.length > 0) {
+      throw new ValidationError(violations);
+    }
+  }
+
+  public async get(options?: ReadOptions): Promise<T[]>;
+  public async get<K extends keyof T & string>(options: ReadOptions & ProjectionOptions<T, K>): Promise<Pick<T, K>[]>;
+  public async get(options: ProjectedReadOptions<T> = {}): Promise<T[]> {
+    if (this.excludesDeleted(options)) {
+      return await this.find({}, options);
+    }
+
+    const items = await this.backend.getAllByDataType(this.dataType, options.projection);
+    return options.projection ? items : this.upgradeAll(items);
+  }
+
+  public async find(condition: QueryCondition<T>, options?: ReadOptions): Promise<T[]>;
+  public async find<K extends keyof T & string>(
+    condition: QueryCondition<T>,
+    options: ReadOptions & ProjectionOptions<T, K>
+  ): Promise<Pick<T, K>[]>;
+  public async find(condition: QueryCondition<T>, options: ProjectedReadOptions<T> = {}): Promise<T[]> {
+    if (this.excludesDeleted(options) && condition.Deleted === undefined) {
+      condition = { ...condition, Deleted: { exists: false } };
+    }
+
+    const items = await this.backend.find(this.dataType, condition, options.projection);
+    return options.projection ? items : this.upgradeAll(items);
+  }
+
+  /**
+   * 1 ページ分のレコードを取得する。
+   * 続きがある場合は lastEvaluatedKey を次の呼び出しの exclusiveStartKey に指定する。
+   */
+  public async getPage(options: PageOptions & ReadOptions): Promise<Page<T>> {
+    const condition: QueryCondition<T> = this.excludesDeleted(options) ? { Deleted: { exists: false } } : {};
+    const { items, lastEvaluatedKey } = await this.backend.findPage(this.dataType, condition, options);
+
+    return { items: this.upgradeAll(items), lastEvaluatedKey };
+  }
+
+  public async getById(id: string, options?: ReadOptions): Promise<T | null>;
+  public async getById<K extends keyof T & string>(id: string, options: ReadOptions & ProjectionOptions<T, K>): Promise<Pick<T, K> | null>;
+  public async getById(id: string, options: ProjectedReadOptions<T> = {}): Promise<T | null> {
+    const { projection } = options;
+    // 論理削除の判定のため、Deleted は指定の有無に関わらず取得する
+    const item = await this.backend.getById(
+      id,
+      this.dataType,
+      projection && this.excludesDeleted(options) ? [...projection, 'Deleted'] as ProjectionAttributes<T> : projection
+    );
+
+    if (!item || (this.excludesDeleted(options) && this.isDeleted(item))) {
+      return null;
+    }
+
+    return projection ? CommonUtil.pick(item, projection) as T : this.upgrade(item);
+  }
+
+  public async create(creates: Partial<T>, options?: CreateOptions): Promise<T> {
+    this.validate(creates);
+    return await this.backend.create(this.toNewRecord(creates), { ...options, ttl: this.ttl });
+  }
+
+  public async batchGetByIds(ids: string[], options: ReadOptions = {}): Promise<T[]> {
+    const items = this.upgradeAll(await this.backend.batchGetByIds(ids, this.dataType));
+
+    if (this.excludesDeleted(options)) {
+      return items.filter(item => !this.isDeleted(item));
+    }
+
+    return items;
+  }
+
+  public async batchCreate(creates: Partial<T>[]): Promise<T[]> {
+    creates.forEach(create => this.validate(create));
+
+    return await this.backend.batchCreate(
+      creates.map(create => this.toNewRecord(create)),
+      { ttl: this.ttl }
+    );
+  }
+
+  /**
+   * レコードを更新する。値に UpdateOperation を指定すると、加算やリストへの追加を保存先で行う。
+   * @returns options.returnValues で指定した内容 (レコードが存在しない・論理削除されている・失効済みの場合は null)
+   */
+  public async update<R extends UpdateReturnValues = 'ALL_NEW'>(
+    id: string,
+    updates: RecordUpdates<T>,
+    options?: ConditionalWriteOptions & ReturnValuesOptions<R>
+  ): Promise<UpdateResult<T, R> | null> {
+    this.validate(updates, true);
+    return await this.backend.update(id, this.dataType, updates, { ...options, ttl: this.ttl, excludeDeleted: this.softDelete });
+  }
+
+  /**
+   * レコードを削除する。論理削除が有効な場合は Deleted を設定する。
+   */
+  public async delete(id: string, options?: ConditionalWriteOptions): Promise<void> {
+    if (this.softDelete) {
+      await this.backend.update(id, this.dataType, { Deleted: Date.now() } as RecordUpdates<T>, { ...options, ttl: this.ttl });
+      return;
+    }
+
+    await this.backend.delete(id, this.dataType, options);
+  }
+
+  public async batchDelete(ids: string[]): Promise<void> {
+    // BatchWriteItem では更新できないため、論理削除は 1 件ずつ行う
+    if (this.softDelete) {
+      for (const id of ids) {
+        await this.delete(id);
+      }
+      return;
+    }
+
+    await this.backend.batchDelete(ids, this.dataType);
+  }
+
+  /**
+   * 論理削除したレコードを復元する。
+   */
+  public async restore(id: string, options?: ConditionalWriteOptions): Promise<T | null> {
+    if (!this.softDelete) {
+      throw new Error(`Soft delete is not enabled for DataType: ${this.dataType}`);
+    }
+
+    return await this.backend.update(id, this.dataType, { Deleted: null } as RecordUpdates<T>, { ...options, ttl: this.ttl });
+  }
+
+  /**
+   * 論理削除の設定に関わらず、レコードを物理削除する。
+   */
+  public async purge(id: string, options?: ConditionalWriteOptions): Promise<void> {
+    await this.backend.delete(id, this.dataType, options);
+  }
+
+  // 子レコードは親とは別の型のため、同じサービスを子の型として扱う
+  private getChildService<C extends RecordTypeBase>(): StorageBackend<C> {
+    return this.backend as unknown as StorageBackend<C>;
+  }
+
+  private toNewRecord(creates: Partial<T>): Partial<T> {
+    const schemaVersion = this.getSchemaVersion();
+
+    return {
+      ...creates,
+      DataType: this.dataType,
+      ...(schemaVersion > 0 && { SchemaVersion: schemaVersion }),
+    };
   }
 
-  public async getById(id: string): Promise<T | null> {
-    return await this.DynamoDBService.getById(id);
+  // 読み込んだレコードを最新の形式に変換する。読み取りで Version・Update が変わらないよう保存はしない (MigrationRunner で保存する)
+  private upgrade(item: T): T {
+    return MigrationRegistry.migrate(this.dataType, item);
   }
 
-  public async create(creates: Partial<T>): Promise<T> {
-    return await this.DynamoDBService.create({ ...creates, DataType: this.dataType });
+  private upgradeAll(items: T[]): T[] {
+    return items.map(item => this.upgrade(item));
+  }
+
+  // 移行で変更された属性のみを更新し、削除された属性は null (REMOVE) とする
+  private getMigrationChanges(item: T, migrated: T): RecordUpdates<T> {
+    const before = item as Record<string, unknown>;
+    const after = migrated as Record<string, unknown>;
+    const changes: Record<string, unknown> = {};
+
+    Object.keys(after).forEach(key => {
+      if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+        changes[key] = after[key];
+      }
+    });
+
+    Object.keys(before).forEach(key => {
+      if (!(key in after)) {
+        changes[key] = null;
+      }
+    });
+
+    return changes as RecordUpdates<T>;
   }
 
-  public async update(id: string, updates: Partial<T>): Promise<T | null> {
-    return await this.DynamoDBService.update(id, this.dataType, updates);
+  private excludesDeleted(options: ReadOptions): boolean {
+    return this.softDelete && !options.includeDeleted;
   }
 
-  public async delete(id: string): Promise<void> {
-    await this.DynamoDBService.delete(id, this.dataType);
+  private isDeleted(item: T): boolean {
+    return item.Deleted !== undefined && item.Deleted !== null;
   }
 }
@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface AuditContextType {
+  actorId: string;
+}
+
+/**
+ * 監査ログに記録する操作者を非同期処理の呼び出し全体に引き渡す。
+ *
+ * @example
+ * await AuditContext.run({ actorId: userId }, async () => {
+ *   await authService.update(id, { name });
+ * });
+ */
+export default class AuditContext {
+  private static readonly storage = new AsyncLocalStorage<AuditContextType>();
+
+  public static run<R>(context: AuditContextType, callback: () => R): R {
+    return this.storage.run(context, callback);
+  }
+
+  public static get(): AuditContextType | undefined {
+    return this.storage.getStore();
+  }
+}
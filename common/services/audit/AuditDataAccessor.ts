@@ -0,0 +1,142 @@
+import AuditContext from '@common/services/audit/AuditContext';
+import DataAccessorBase from '@common/services/DataAccessorBase';
+import DynamoDBService from '@common/services/aws/DynamoDBService';
+import DynamoDBTransaction from '@common/services/aws/DynamoDBTransaction';
+import CommonUtil from '@common/utils/CommonUtil';
+import { AuditChange, AuditOperation, AuditRecordType } from '@common/interfaces/record/AuditRecordType';
+import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+import { StorageBackend } from '@common/interfaces/storage/StorageBackend';
+import { AUDIT_DATA_TYPE_PREFIX } from '@common/consts/DynamoDBConst';
+
+// 書き込みのたびに変わるため差分に含めない属性
+const IGNORED_ATTRIBUTES = ['ID', 'DataType', 'Create', 'Update', 'Version', 'ExpiresAt'];
+
+/**
+ * 監査ログを保存する書き込み
+ */
+export interface AuditedWrite<T extends RecordTypeBase> {
+  operation: AuditOperation;
+  /**
+   * 変更前のレコード (作成時は null)
+   */
+  before: T | null;
+  /**
+   * 保存先が DynamoDBService の場合に使用する。トランザクションに書き込みを追加し、変更後のレコードを返す。
+   */
+  transact(transaction: DynamoDBTransaction): Promise<T | null>;
+  /**
+   * それ以外の保存先で使用する。書き込みを実行し、変更後のレコードを返す。
+   */
+  write(): Promise<T | null>;
+}
+
+/**
+ * 対象 DataAccessor と同じテーブルに、対象レコードと同じ ID・DataType `Audit:<対象の DataType>:<日時>:<UUID>` で監査ログを保存する。
+ * 対象レコードの監査ログは ID と DataType の前方一致で、古い順に取得できる。
+ */
+export class AuditDataAccessor extends DataAccessorBase<AuditRecordType> {
+  // 同じミリ秒に書き込んだ監査ログも書き込んだ順に並ぶよう、プロセス内では日時を単調増加させる
+  private static lastTimestamp = 0;
+
+  constructor(target: DataAccessorBase<any>) {
+    super(
+      target.getTableName(),
+      `${AUDIT_DATA_TYPE_PREFIX}${target.getDataType()}`,
+      target.getBackend() as unknown as StorageBackend<AuditRecordType>
+    );
+  }
+
+  /**
+   * 書き込みを実行し、変更前後のレコードの差分を監査ログとして保存する。
+   * 保存先が DynamoDBService の場合は書き込みと監査ログを 1 つのトランザクションで保存し、
+   * それ以外の保存先では書き込みの後に監査ログを保存する。
+   * @returns 変更後のレコード (作成・更新・復元で対象が存在しない場合は監査ログを保存せずに null)
+   */
+  public async write<T extends RecordTypeBase>(change: AuditedWrite<T>): Promise<T | null> {
+    const backend = this.getBackend();
+
+    if (!(backend instanceof DynamoDBService)) {
+      const after = await change.write();
+
+      if (this.isMissing(change.operation, after)) {
+        return null;
+      }
+
+      const record = this.buildRecord(change.operation, change.before, after);
+      await backend.create(record, { id: record.ID });
+      return after;
+    }
+
+    const transaction = backend.transaction();
+    const after = await change.transact(transaction);
+
+    if (this.isMissing(change.operation, after)) {
+      return null;
+    }
+
+    const record = this.buildRecord(change.operation, change.before, after);
+    await transaction.putRecord(this, record, { id: record.ID }).commit();
+    return after;
+  }
+
+  /**
+   * 対象レコードの監査ログを古い順に取得する。
+   */
+  public async getHistory(targetId: string): Promise<AuditRecordType[]> {
+    return await this.getBackend().findByDataTypePrefix(targetId, `${this.getDataType()}:`);
+  }
+
+  private buildRecord(operation: AuditOperation, before: RecordTypeBase | null, after: RecordTypeBase | null): AuditRecordType {
+    const context = AuditContext.get();
+    const targetId = (after || before)!.ID!;
+    const timestamp = AuditDataAccessor.now();
+
+    return {
+      ID: targetId,
+      DataType: `${this.getDataType()}:${new Date(timestamp).toISOString()}:${CommonUtil.generateUUID()}`,
+      TargetID: targetId,
+      ActorID: context ? context.actorId : null,
+      Operation: operation,
+      Changes: this.diff({ ...before }, { ...after }),
+      Timestamp: timestamp,
+    };
+  }
+
+  // 削除以外の書き込みで変更後のレコードがない場合は、対象が存在しなかったため何も変更されていない
+  private isMissing(operation: AuditOperation, after: RecordTypeBase | null): boolean {
+    return after === null && operation !== 'delete' && operation !== 'purge';
+  }
+
+  private diff(before: Record<string, unknown>, after: Record<string, unknown>): Record<string, AuditChange> {
+    const changes: Record<string, AuditChange> = {};
+    const names = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    names.forEach(name => {
+      if (IGNORED_ATTRIBUTES.includes(name)) {
+        return;
+      }
+
+      const beforeValue = this.normalize(before[name]);
+      const afterValue = this.normalize(after[name]);
+
+      if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+        changes[name] = {
+          ...(beforeValue !== undefined && { before: beforeValue }),
+          ...(afterValue !== undefined && { after: afterValue }),
+        };
+      }
+    });
+
+    return changes;
+  }
+
+  // 未設定と null は同じ「値なし」として扱う
+  private normalize(value: unknown): unknown {
+    return value === null ? undefined : value;
+  }
+
+  private static now(): number {
+    AuditDataAccessor.lastTimestamp = Math.max(Date.now(), AuditDataAccessor.lastTimestamp + 1);
+    return AuditDataAccessor.lastTimestamp;
+  }
+}
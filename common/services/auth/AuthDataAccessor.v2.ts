@@ -1,18 +1,34 @@
 import DataAccessorBase from '@common/services/DataAccessorBase';
-import DynamoDBService from '@common/services/aws/DynamoDBService';
+import DynamoDBService, { DynamoDBServiceOptions } from '@common/services/aws/DynamoDBService';
 import EnvironmentalUtil from '@common/utils/EnvironmentalUtil';
 import { AuthRecordType } from '@common/interfaces/record/AuthRecordType';
+import { RecordSchema } from '@common/interfaces/validation/RecordSchema';
+import { StorageBackend } from '@common/interfaces/storage/StorageBackend';
+
+export const AUTH_RECORD_SCHEMA: RecordSchema<AuthRecordType> = {
+  Name: { type: 'string', required: true, minLength: 1 },
+  GoogleUserID: { type: 'string', required: true, minLength: 1 },
+};
 
 export class AuthDataAccessor<T extends AuthRecordType> extends DataAccessorBase<T> {
+  /**
+   * @param backend 保存先 (省略時は環境ごとの Auth テーブルの DynamoDBService)
+   * @param options backend を省略した場合の DynamoDBService の設定。dataTypeIndexName は GSI (ソートキー Create) のあるテーブルでのみ指定する
+   */
   public constructor(
-    dynamoDBService?: DynamoDBService<T>
+    backend?: StorageBackend<T>,
+    options: Pick<DynamoDBServiceOptions, 'dataTypeIndexName'> = {}
   ) {
-    if (!dynamoDBService) {
+    if (!backend) {
       const tableName = AuthDataAccessor.getAuthTableName();
-      dynamoDBService = new DynamoDBService<T>(tableName);
+      backend = new DynamoDBService<T>(tableName, {
+        dataTypeIndexName: options.dataTypeIndexName
+      });
     }
 
-    super(AuthDataAccessor.getAuthTableName(), 'Auth', dynamoDBService);
+    super(AuthDataAccessor.getAuthTableName(), 'Auth', backend, {
+      schema: AUTH_RECORD_SCHEMA
+    });
   }
 
   private static getAuthTableName(): string {
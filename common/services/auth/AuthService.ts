@@ -50,6 +50,7 @@ export default class AuthService<DataType extends AuthDataType, RecordType exten
       googleUserId: record.GoogleUserID,
       create: record.Create,
       update: record.Update,
+      version: record.Version || 0,
     };
   }
 }
@@ -1,22 +1,33 @@
 import CRUDServiceBase from '@common/services/CRUDServiceBase';
 import { AuthDataType } from '@common/interfaces/data/AuthDataType';
 import { AuthRecordType } from '@common/interfaces/record/AuthRecordType';
+import { QueryCondition } from '@common/interfaces/query/QueryCondition';
 import { AuthDataAccessor } from '@common/services/auth/AuthDataAccessor.v2';
 
 export class AuthService<DataType extends AuthDataType, RecordType extends AuthRecordType> extends CRUDServiceBase<DataType, RecordType> {
   public constructor(
-    dataAccessor?: AuthDataAccessor<RecordType>
+    dataAccessor?: AuthDataAccessor<RecordType>,
+    useCache: boolean = true
   ) {
     if (!dataAccessor) {
       dataAccessor = new AuthDataAccessor<RecordType>();
     }
 
-    super(dataAccessor, true);
+    super(dataAccessor, useCache);
   }
 
+  /**
+   * キャッシュ有効時はキャッシュから、無効時は GoogleUserID の条件で検索する。
+   */
   public async getByGoogleUserId(googleUserId: string): Promise<DataType | null> {
-    const users = await this.get();
-    return users.find(user => user.googleUserId === googleUserId) || null;
+    if (this.useCache) {
+      const users = await this.get();
+      return users.find(user => user.googleUserId === googleUserId) || null;
+    }
+
+    const condition: QueryCondition<Pick<RecordType, 'GoogleUserID'>> = { GoogleUserID: googleUserId };
+    const [record] = await this.dataAccessor.find(condition);
+    return record ? this.recordToData(record) : null;
   }
 
   protected dataToRecord(data: Partial<DataType>): Partial<RecordType> {
@@ -33,6 +44,7 @@ export class AuthService<DataType extends AuthDataType, RecordType extends AuthR
       googleUserId: record.GoogleUserID,
       create: record.Create,
       update: record.Update,
+      version: record.Version || 0,
     } as DataType;
   }
 }
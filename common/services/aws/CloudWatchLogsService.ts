@@ -9,7 +9,7 @@ import {
 } from '@aws-sdk/client-cloudwatch-logs';
 
 import ErrorUtil from '@common/utils/ErrorUtil';
-import SecretsManagerUtil from '@common/aws/SecretsManagerUtil';
+import AWSClientFactory from '@common/aws/AWSClientFactory';
 
 export interface LogEvent {
   message: string;
@@ -26,10 +26,15 @@ export interface GetLogEventsOptions {
 export default class CloudWatchLogsService {
   private readonly logGroupName: string;
   private readonly logStreamName: string;
+  private readonly client?: CloudWatchLogsClient;
 
-  constructor(logGroupName: string, logStreamName: string) {
+  /**
+   * @param client 使用する CloudWatchLogsClient。省略時は AWSClientFactory が生成した共有クライアントを使用する。
+   */
+  constructor(logGroupName: string, logStreamName: string, client?: CloudWatchLogsClient) {
     this.logGroupName = logGroupName;
     this.logStreamName = logStreamName;
+    this.client = client;
   }
 
   public getLogGroupName(): string {
@@ -134,20 +139,6 @@ export default class CloudWatchLogsService {
   }
 
   private async getCloudWatchLogsClient(): Promise<CloudWatchLogsClient> {
-    const secretName = process.env.PROJECT_SECRET!;
-
-    if (process.env.PROCESS_ENV !== 'local') {
-      return new CloudWatchLogsClient({
-        region: await SecretsManagerUtil.getSecretValue(secretName, 'AWS_REGION'),
-      });
-    }
-
-    return new CloudWatchLogsClient({
-      region: await SecretsManagerUtil.getSecretValue(secretName, 'AWS_REGION'),
-      credentials: {
-        accessKeyId: await SecretsManagerUtil.getSecretValue(secretName, 'AWS_ACCESS_KEY'),
-        secretAccessKey: await SecretsManagerUtil.getSecretValue(secretName, 'AWS_SECRET_ACCESS_KEY'),
-      },
-    });
+    return this.client || await AWSClientFactory.getClient(CloudWatchLogsClient);
   }
 }
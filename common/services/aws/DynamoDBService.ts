@@ -1,191 +1,939 @@
-import { DynamoDBClient, ScanCommand, PutItemCommand, UpdateItemCommand, DeleteItemCommand } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBClient,
+  ScanCommand,
+  ScanCommandInput,
+  QueryCommand,
+  QueryCommandInput,
+  GetItemCommand,
+  PutItemCommand,
+  UpdateItemCommand,
+  DeleteItemCommand,
+  BatchWriteItemCommand,
+  BatchGetItemCommand,
+  WriteRequest,
+  Put,
+  Update,
+  Delete,
+  ConditionCheck,
+  AttributeValue,
+  CreateTableCommand,
+  GlobalSecondaryIndex,
+  waitUntilTableExists
+} from '@aws-sdk/client-dynamodb';
 import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
 
 import CommonUtil from '@common/utils/CommonUtil';
+import DynamoDBTransaction from '@common/services/aws/DynamoDBTransaction';
+import DynamoDBExpressionUtil, { ExpressionAttributes } from '@common/utils/DynamoDBExpressionUtil';
 import ErrorUtil from '@common/utils/ErrorUtil';
-import SecretsManagerUtil from '@common/aws/SecretsManagerUtil';
+import TtlUtil from '@common/utils/TtlUtil';
+import AWSClientFactory from '@common/aws/AWSClientFactory';
+import UpdateOperation, { RecordUpdates } from '@common/services/storage/UpdateOperation';
+import { AlreadyExistsError, ConflictError } from '@common/errors';
+import { QueryCondition } from '@common/interfaces/query/QueryCondition';
+import {
+  ConditionalWriteOptions,
+  CreateOptions,
+  Page,
+  PageOptions,
+  ProjectionAttributes,
+  ReturnValuesOptions,
+  StorageBackend,
+  TtlPolicy,
+  UpdateOptions,
+  UpdateResult,
+  UpdateReturnValues
+} from '@common/interfaces/storage/StorageBackend';
 import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
 
-export default class DynamoDBService<T extends RecordTypeBase> {
+export interface DynamoDBServiceOptions {
+  /**
+   * DataType をパーティションキーとする GSI 名。
+   * 指定した場合、DataType 指定の取得は Scan ではなくこのインデックスへの Query になる。
+   * ソートキーは Create (数値型) であること (findPage はこのインデックスの順序を作成日時の順として扱う)。
+   */
+  dataTypeIndexName?: string;
+  /**
+   * 使用する DynamoDBClient。省略時は AWSClientFactory が生成した共有クライアントを使用する。
+   */
+  client?: DynamoDBClient;
+  /**
+   * 接続先のエンドポイント (DynamoDB Local など)。省略時は環境変数 PROJECT_DYNAMODB_ENDPOINT を使用する。
+   * 指定した場合は Secrets Manager を参照しない。
+   */
+  endpoint?: string;
+}
+
+export interface GlobalSecondaryIndexSchema {
+  indexName: string;
+  partitionKey: string;
+  sortKey?: string;
+  /**
+   * ソートキーの型。省略時は文字列型。
+   */
+  sortKeyType?: 'S' | 'N';
+}
+
+export interface CreateTableOptions {
+  /**
+   * 作成する GSI (パーティションキーは文字列型)。
+   * dataTypeIndexName を指定したサービスでは、DataType をパーティションキー、Create をソートキーとする GSI を自動で追加する。
+   */
+  globalSecondaryIndexes?: GlobalSecondaryIndexSchema[];
+}
+
+type ExclusiveStartKey = Record<string, AttributeValue> | undefined;
+
+interface PageResponse {
+  Items?: Record<string, AttributeValue>[];
+  LastEvaluatedKey?: Record<string, AttributeValue>;
+}
+
+// 保存先の共通の型は StorageBackend に定義し、既存の import のためにここからも公開する
+export type {
+  ConditionalWriteOptions,
+  CreateOptions,
+  Page,
+  PageOptions,
+  ProjectionAttributes,
+  ReturnValuesOptions,
+  TtlPolicy,
+  UpdateOptions,
+  UpdateResult,
+  UpdateReturnValues
+};
+
+export default class DynamoDBService<T extends RecordTypeBase> implements StorageBackend<T> {
+  // BatchWriteItem / BatchGetItem の 1 リクエストあたりの上限
+  private static readonly BATCH_WRITE_LIMIT = 25;
+  private static readonly BATCH_GET_LIMIT = 100;
+  // 未処理分の再送回数と初回待機時間 (ms)、待機時間は再送のたびに倍にする
+  private static readonly BATCH_MAX_RETRIES = 5;
+  private static readonly BATCH_RETRY_BASE_DELAY = 100;
+
   private readonly tableName: string;
+  private readonly dataTypeIndexName?: string;
+  private readonly client?: DynamoDBClient;
+  private readonly endpoint?: string;
 
-  constructor(tableName: string) {
+  constructor(tableName: string, options: DynamoDBServiceOptions = {}) {
     this.tableName = tableName;
+    this.dataTypeIndexName = options.dataTypeIndexName;
+    this.client = options.client;
+    this.endpoint = options.endpoint || process.env.PROJECT_DYNAMODB_ENDPOINT;
   }
 
   public getTableName(): string {
     return this.tableName;
   }
 
+  public getDataTypeIndexName(): string | undefined {
+    return this.dataTypeIndexName;
+  }
+
   public async getAll(): Promise<T[]> {
+    return await this.collectPages(this.iterateScan({
+      TableName: this.tableName
+    }));
+  }
+
+  public async getAllByDataType(dataTypeValue: string, projection?: ProjectionAttributes<T>): Promise<T[]> {
+    return await this.collectPages(this.iterateFind(dataTypeValue, {}, undefined, projection));
+  }
+
+  /**
+   * DataType を指定して、結果をページ単位で順次返す。
+   * 全件をメモリに載せずに処理したい場合 (エクスポート等) に使用する。
+   * @param dataTypeValue 取得対象の DataType
+   * @param pageSize 1 リクエストあたりの評価件数 (未指定時は DynamoDB の上限 1MB まで)
+   */
+  public async *iterateByDataType(dataTypeValue: string, pageSize?: number): AsyncGenerator<T[]> {
+    yield* this.iterateFind(dataTypeValue, {}, pageSize);
+  }
+
+  /**
+   * DataType と属性の条件でレコードを検索する。
+   * @param dataTypeValue 取得対象の DataType
+   * @param condition 属性ごとの検索条件
+   * @param projection 取得する属性 (未指定時はすべての属性)
+   */
+  public async find(dataTypeValue: string, condition: QueryCondition<T>, projection?: ProjectionAttributes<T>): Promise<T[]> {
+    return await this.collectPages(this.iterateFind(dataTypeValue, condition, undefined, projection));
+  }
+
+  /**
+   * find の結果をページ単位で順次返す。
+   * ID が一致条件で指定されていればキー指定の Query、GSI が設定されていればインデックスへの Query、
+   * いずれでもなければ Scan を使用する。
+   * @param dataTypeValue 取得対象の DataType
+   * @param condition 属性ごとの検索条件
+   * @param pageSize 1 リクエストあたりの評価件数
+   * @param projection 取得する属性 (未指定時はすべての属性)
+   */
+  public async *iterateFind(
+    dataTypeValue: string,
+    condition: QueryCondition<T>,
+    pageSize?: number,
+    projection?: ProjectionAttributes<T>
+  ): AsyncGenerator<T[]> {
+    const attributes = new ExpressionAttributes();
+    const { ID: idCondition, ...restCondition } = condition;
+    const dataTypeExpression = `${attributes.name('DataType')} = ${attributes.value(dataTypeValue)}`;
+    const projectionExpression = this.buildProjectionExpression(projection, attributes);
+
+    if (typeof idCondition === 'string') {
+      const keyConditionExpression = `${attributes.name('ID')} = ${attributes.value(idCondition)} AND ${dataTypeExpression}`;
+      const filterExpression = DynamoDBExpressionUtil.buildConditionExpression(restCondition as QueryCondition<T>, attributes);
+
+      yield* this.iterateQuery({
+        TableName: this.tableName,
+        KeyConditionExpression: keyConditionExpression,
+        FilterExpression: filterExpression,
+        ProjectionExpression: projectionExpression,
+        ExpressionAttributeNames: attributes.getNames(),
+        ExpressionAttributeValues: attributes.getValues(),
+        Limit: pageSize
+      }, projection);
+      return;
+    }
+
+    const filterExpression = DynamoDBExpressionUtil.buildConditionExpression(condition, attributes);
+
+    if (this.dataTypeIndexName) {
+      yield* this.iterateQuery({
+        TableName: this.tableName,
+        IndexName: this.dataTypeIndexName,
+        KeyConditionExpression: dataTypeExpression,
+        FilterExpression: filterExpression,
+        ProjectionExpression: projectionExpression,
+        ExpressionAttributeNames: attributes.getNames(),
+        ExpressionAttributeValues: attributes.getValues(),
+        Limit: pageSize
+      }, projection);
+      return;
+    }
+
+    yield* this.iterateScan({
+      TableName: this.tableName,
+      FilterExpression: [dataTypeExpression, filterExpression].filter(Boolean).join(' AND '),
+      ProjectionExpression: projectionExpression,
+      ExpressionAttributeNames: attributes.getNames(),
+      ExpressionAttributeValues: attributes.getValues(),
+      Limit: pageSize
+    }, projection);
+  }
+
+  /**
+   * DataType と属性の条件で検索した結果のうち、1 ページ分を返す。
+   * DataType 用 GSI が設定されている場合は Create の順、そうでなければ Scan の順になる。
+   * GSI がなく sort を指定した場合は、全件を Scan して Create の順に並べ替えてから区切る。
+   * 条件に一致しない・失効済みのアイテムは評価後に除外されるため、続きがあっても items が limit 件に満たない場合がある。
+   * @param dataTypeValue 取得対象の DataType
+   * @param condition 属性ごとの検索条件
+   * @param options 件数・開始位置・順序
+   */
+  public async findPage(dataTypeValue: string, condition: QueryCondition<T>, options: PageOptions): Promise<Page<T>> {
+    // Scan では作成日時の順に取得できない
+    if (!this.dataTypeIndexName && options.sort) {
+      return await this.findSortedPage(dataTypeValue, condition, options);
+    }
+
     const dynamoClient = await this.getDynamoClient();
+    const attributes = new ExpressionAttributes();
+    const dataTypeExpression = `${attributes.name('DataType')} = ${attributes.value(dataTypeValue)}`;
+    const filterExpression = DynamoDBExpressionUtil.buildConditionExpression(condition, attributes);
+    const exclusiveStartKey = options.exclusiveStartKey && marshall(options.exclusiveStartKey);
 
-    const command = new ScanCommand({
-      TableName: this.tableName
-    });
+    let response: PageResponse;
 
     try {
-      const response = await dynamoClient.send(command);
-      const items = response.Items || [];
-      return items.map(item => unmarshall(item) as T);
+      response = this.dataTypeIndexName
+        ? await dynamoClient.send(new QueryCommand({
+          TableName: this.tableName,
+          IndexName: this.dataTypeIndexName,
+          KeyConditionExpression: dataTypeExpression,
+          FilterExpression: filterExpression,
+          ExpressionAttributeNames: attributes.getNames(),
+          ExpressionAttributeValues: attributes.getValues(),
+          ScanIndexForward: options.sort !== 'desc',
+          Limit: options.limit,
+          ExclusiveStartKey: exclusiveStartKey
+        }))
+        : await dynamoClient.send(new ScanCommand({
+          TableName: this.tableName,
+          FilterExpression: [dataTypeExpression, filterExpression].filter(Boolean).join(' AND '),
+          ExpressionAttributeNames: attributes.getNames(),
+          ExpressionAttributeValues: attributes.getValues(),
+          Limit: options.limit,
+          ExclusiveStartKey: exclusiveStartKey
+        }));
     } catch (error) {
       ErrorUtil.throwError(null, error);
     }
+
+    return {
+      items: this.toItems(response.Items || []),
+      lastEvaluatedKey: response.LastEvaluatedKey && unmarshall(response.LastEvaluatedKey)
+    };
   }
 
-  public async getAllByDataType(dataTypeValue: string): Promise<T[]> {
-    const dynamoClient = await this.getDynamoClient();
+  /**
+   * ID が一致し、DataType が指定の文字列で始まるレコードを Query で取得する。
+   * 同じ ID の下に `<DataType>#<子 ID>` で保存した子レコードの取得に使用する。
+   * @param id パーティションキー (親の ID)
+   * @param dataTypePrefix DataType の前方一致条件
+   */
+  public async findByDataTypePrefix(id: string, dataTypePrefix: string): Promise<T[]> {
+    const attributes = new ExpressionAttributes();
 
-    const command = new ScanCommand({
+    return await this.collectPages(this.iterateQuery({
       TableName: this.tableName,
-      FilterExpression: "#dt = :dt",
-      ExpressionAttributeNames: { "#dt": "DataType" },
-      ExpressionAttributeValues: { ":dt": { S: dataTypeValue } }
-    });
+      KeyConditionExpression: `${attributes.name('ID')} = ${attributes.value(id)} AND begins_with(${attributes.name('DataType')}, ${attributes.value(dataTypePrefix)})`,
+      ExpressionAttributeNames: attributes.getNames(),
+      ExpressionAttributeValues: attributes.getValues()
+    }));
+  }
 
-    try {
-      const response = await dynamoClient.send(command);
-      const items = response.Items || [];
-      return items.map(item => unmarshall(item) as T);
-    } catch (error) {
-      ErrorUtil.throwError(null, error);
+  /**
+   * 変換前の DynamoDB の形式 (AttributeValue) のまま、テーブルのアイテムをページ単位で順次返す。
+   * 失効済みのアイテムも含む。エクスポート用。
+   * @param dataTypeValue 指定した場合はその DataType のアイテムのみを返す
+   * @param pageSize 1 リクエストあたりの評価件数
+   */
+  public async *iterateRawItems(dataTypeValue?: string, pageSize?: number): AsyncGenerator<Record<string, AttributeValue>[]> {
+    const dynamoClient = await this.getDynamoClient();
+    const attributes = new ExpressionAttributes();
+    const dataTypeExpression = dataTypeValue
+      ? `${attributes.name('DataType')} = ${attributes.value(dataTypeValue)}`
+      : undefined;
+
+    if (dataTypeExpression && this.dataTypeIndexName) {
+      yield* this.iterateRawPages(exclusiveStartKey => dynamoClient.send(new QueryCommand({
+        TableName: this.tableName,
+        IndexName: this.dataTypeIndexName,
+        KeyConditionExpression: dataTypeExpression,
+        ExpressionAttributeNames: attributes.getNames(),
+        ExpressionAttributeValues: attributes.getValues(),
+        Limit: pageSize,
+        ExclusiveStartKey: exclusiveStartKey
+      })));
+      return;
     }
+
+    yield* this.iterateRawPages(exclusiveStartKey => dynamoClient.send(new ScanCommand({
+      TableName: this.tableName,
+      FilterExpression: dataTypeExpression,
+      ExpressionAttributeNames: attributes.getNames(),
+      ExpressionAttributeValues: attributes.getValues(),
+      Limit: pageSize,
+      ExclusiveStartKey: exclusiveStartKey
+    })));
+  }
+
+  /**
+   * DynamoDB の形式 (AttributeValue) のアイテムを BatchWriteItem でそのまま書き込む。
+   * ID・Version・日時などは付与・変更しない。インポート用。
+   */
+  public async batchPutRawItems(items: Record<string, AttributeValue>[]): Promise<void> {
+    await this.batchWrite(items.map(item => ({ PutRequest: { Item: item } })));
   }
 
-  public async getById(id: string): Promise<T | null> {
+  /**
+   * @param id パーティションキー
+   * @param dataType ソートキー (未指定時は ID が一致する最初のレコード)
+   * @param projection 取得する属性 (未指定時はすべての属性)
+   */
+  public async getById(id: string, dataType?: string, projection?: ProjectionAttributes<T>): Promise<T | null> {
     const dynamoClient = await this.getDynamoClient();
+    const attributes = new ExpressionAttributes();
+    const projectionExpression = this.buildProjectionExpression(projection, attributes);
+
+    // ID と DataType が揃っていればキー指定で 1 件取得する
+    if (dataType) {
+      const command = new GetItemCommand({
+        TableName: this.tableName,
+        Key: marshall({ ID: id, DataType: dataType }),
+        ProjectionExpression: projectionExpression,
+        ExpressionAttributeNames: attributes.getNames()
+      });
+
+      try {
+        const response = await dynamoClient.send(command);
+
+        if (!response.Item) {
+          return null;
+        }
+
+        return this.toItems([response.Item], projection)[0] || null;
+      } catch (error) {
+        ErrorUtil.throwError(null, error);
+      }
+    }
 
-    const command = new ScanCommand({
+    // ID のみの場合はパーティションキーで Query する
+    const command = new QueryCommand({
       TableName: this.tableName,
-      FilterExpression: "#id = :id",
-      ExpressionAttributeNames: { "#id": "ID" },
-      ExpressionAttributeValues: { ":id": { S: id } }
+      KeyConditionExpression: `${attributes.name('ID')} = ${attributes.value(id)}`,
+      ProjectionExpression: projectionExpression,
+      ExpressionAttributeNames: attributes.getNames(),
+      ExpressionAttributeValues: attributes.getValues(),
+      Limit: 1
     });
 
     try {
       const response = await dynamoClient.send(command);
-      const items = response.Items || [];
 
-      if (items.length === 0) {
-        return null;
-      }
-
-      return unmarshall(items[0]) as T;
+      return this.toItems(response.Items || [], projection)[0] || null;
     } catch (error) {
       ErrorUtil.throwError(null, error);
     }
   }
 
-  public async create(creates: Partial<T>): Promise<T> {
-    if (!creates.DataType) {
-      ErrorUtil.throwError('DataType is required');
-    }
-
-    const item: T = {
-      ...creates,
-      ID: CommonUtil.generateUUID(),
-      Create: Date.now(),
-      Update: Date.now()
-    } as T;
+  public async create(creates: Partial<T>, options: CreateOptions = {}): Promise<T> {
+    const { item, put } = this.buildPut(creates, options);
 
     const dynamoClient = await this.getDynamoClient();
 
-    const command = new PutItemCommand({
-      TableName: this.tableName,
-      Item: marshall(item, { removeUndefinedValues: true })
-    });
+    const command = new PutItemCommand(put);
 
     try {
       await dynamoClient.send(command);
     } catch (error) {
+      if (this.isConditionalCheckFailed(error)) {
+        throw new AlreadyExistsError(`Item already exists with id: ${item.ID}`);
+      }
       ErrorUtil.throwError(null, error);
     }
 
     return item;
   }
 
-  public async update(
-    id: string,
-    dataType: string,
-    updates: Partial<T>
-  ): Promise<T | null> {
-    const dynamoClient = await this.getDynamoClient();
+  /**
+   * 複数レコードを BatchWriteItem で作成する。
+   * 25 件ごとに分割して送信し、未処理分はバックオフしながら再送する。
+   */
+  public async batchCreate(creates: Partial<T>[], options: Pick<CreateOptions, 'ttl'> = {}): Promise<T[]> {
+    if (creates.some(create => !create.DataType)) {
+      ErrorUtil.throwError('DataType is required');
+    }
 
-    updates.Update = Date.now();
+    const items = creates.map(create => this.buildNewItem(create, undefined, options.ttl));
 
-    // SET: 値が null/undefined 以外
-    const setEntries = Object.entries(updates)
-      .filter(([k, v]) => !["ID", "DataType"].includes(k) && v !== undefined && v !== null);
-    // REMOVE: 値が null
-    const removeEntries = Object.entries(updates)
-      .filter(([k, v]) => !["ID", "DataType"].includes(k) && v === null);
+    await this.batchWrite(items.map(item => ({
+      PutRequest: { Item: marshall(item, { removeUndefinedValues: true }) }
+    })));
 
-    let updateExpr = '';
-    const exprAttrNames: Record<string, string> = {};
-    const exprAttrValues: Record<string, any> = {};
+    return items;
+  }
 
-    if (setEntries.length > 0) {
-      updateExpr += 'SET ' + setEntries.map(([k]) => `#${k} = :${k}`).join(', ');
-      Object.assign(exprAttrNames, Object.fromEntries(setEntries.map(([k]) => [`#${k}`, k])));
-      Object.assign(exprAttrValues, Object.fromEntries(setEntries.map(([k, v]) => [`:${k}`, marshall({ [k]: v }, { removeUndefinedValues: true })[k]])));
-    }
-    if (removeEntries.length > 0) {
-      if (updateExpr) updateExpr += ' ';
-      updateExpr += 'REMOVE ' + removeEntries.map(([k]) => `#${k}`).join(', ');
-      Object.assign(exprAttrNames, Object.fromEntries(removeEntries.map(([k]) => [`#${k}`, k])));
-    }
+  /**
+   * 複数レコードを BatchWriteItem で削除する。
+   */
+  public async batchDelete(ids: string[], dataType: string): Promise<void> {
+    await this.batchWrite(Array.from(new Set(ids)).map(id => ({
+      DeleteRequest: { Key: marshall({ ID: id, DataType: dataType }) }
+    })));
+  }
 
-    if (!updateExpr) {
-      ErrorUtil.throwError('No fields to update');
+  /**
+   * 複数レコードを BatchGetItem で取得する。
+   * 100 件ごとに分割して送信し、存在しない ID は結果に含めない。
+   * @returns ids の指定順に並べたレコード
+   */
+  public async batchGetByIds(ids: string[], dataType: string): Promise<T[]> {
+    const dynamoClient = await this.getDynamoClient();
+    const uniqueIds = Array.from(new Set(ids));
+    const results: T[] = [];
+
+    for (const chunk of CommonUtil.chunk(uniqueIds, DynamoDBService.BATCH_GET_LIMIT)) {
+      let keys = chunk.map(id => marshall({ ID: id, DataType: dataType }));
+
+      for (let attempt = 0; keys.length > 0; attempt++) {
+        if (attempt > 0) {
+          await this.waitForRetry(attempt, keys.length);
+        }
+
+        const command = new BatchGetItemCommand({
+          RequestItems: { [this.tableName]: { Keys: keys } }
+        });
+
+        try {
+          const response = await dynamoClient.send(command);
+          const items = response.Responses?.[this.tableName] || [];
+          results.push(...this.excludeExpired(items.map(item => unmarshall(item) as T)));
+          keys = response.UnprocessedKeys?.[this.tableName]?.Keys || [];
+        } catch (error) {
+          ErrorUtil.throwError(null, error);
+        }
+      }
     }
 
+    const order = new Map(uniqueIds.map((id, index) => [id, index]));
+    return results.sort((a, b) => order.get(a.ID!)! - order.get(b.ID!)!);
+  }
+
+  /**
+   * 既存のレコードを更新する。レコードが存在しない場合は作成せずに null を返す。
+   * @returns options.returnValues で指定した内容 (省略時は更新後のレコード)
+   */
+  public async update<R extends UpdateReturnValues = 'ALL_NEW'>(
+    id: string,
+    dataType: string,
+    updates: RecordUpdates<T>,
+    options: UpdateOptions & ReturnValuesOptions<R> = {}
+  ): Promise<UpdateResult<T, R> | null> {
+    const dynamoClient = await this.getDynamoClient();
+
     const command = new UpdateItemCommand({
-      TableName: this.tableName,
-      Key: marshall({ ID: id, DataType: dataType }),
-      UpdateExpression: updateExpr,
-      ExpressionAttributeNames: Object.keys(exprAttrNames).length > 0 ? exprAttrNames : undefined,
-      ExpressionAttributeValues: Object.keys(exprAttrValues).length > 0 ? exprAttrValues : undefined
+      ...this.buildUpdate(id, dataType, updates, options),
+      ReturnValues: options.returnValues || 'ALL_NEW',
+      // 条件を満たさなかった場合に、レコードが存在しないのか Version が異なるのかを判別するため
+      ReturnValuesOnConditionCheckFailure: 'ALL_OLD'
     });
 
     try {
-      await dynamoClient.send(command);
+      const response = await dynamoClient.send(command);
+      return (response.Attributes ? unmarshall(response.Attributes) : {}) as UpdateResult<T, R>;
     } catch (error) {
-      ErrorUtil.throwError(null, error);
+      if (this.isConditionalCheckFailed(error) && this.isMissingItem((error as { Item?: Record<string, AttributeValue> }).Item, options)) {
+        return null;
+      }
+      this.throwWriteError(id, error);
     }
+  }
+
+  public async delete(id: string, dataType: string, options: ConditionalWriteOptions = {}): Promise<void> {
+    const dynamoClient = await this.getDynamoClient();
 
-    return await this.getById(id);
+    const command = new DeleteItemCommand(this.buildDelete(id, dataType, options));
+
+    try {
+      await dynamoClient.send(command);
+    } catch (error) {
+      this.throwWriteError(id, error);
+    }
   }
 
-  public async delete(id: string, dataType: string): Promise<void> {
+  /**
+   * 単一テーブル設計 (ID パーティションキー、DataType ソートキー) のテーブルを作成し、利用可能になるまで待機する。
+   * 開発環境 (DynamoDB Local など) のセットアップ用。
+   * @returns テーブルを作成した場合は true、既に存在する場合は false
+   */
+  public async createTable(options: CreateTableOptions = {}): Promise<boolean> {
     const dynamoClient = await this.getDynamoClient();
+    const indexes = this.getIndexSchemas(options);
+    const keyAttributes = new Map<string, 'S' | 'N'>([['ID', 'S'], ['DataType', 'S']]);
+
+    indexes.forEach(index => {
+      keyAttributes.set(index.partitionKey, 'S');
+      if (index.sortKey) {
+        keyAttributes.set(index.sortKey, index.sortKeyType || 'S');
+      }
+    });
 
-    const command = new DeleteItemCommand({
+    const command = new CreateTableCommand({
       TableName: this.tableName,
-      Key: marshall({ ID: id, DataType: dataType })
+      BillingMode: 'PAY_PER_REQUEST',
+      AttributeDefinitions: [...keyAttributes].map(([name, type]) => ({ AttributeName: name, AttributeType: type })),
+      KeySchema: [
+        { AttributeName: 'ID', KeyType: 'HASH' },
+        { AttributeName: 'DataType', KeyType: 'RANGE' }
+      ],
+      GlobalSecondaryIndexes: indexes.length > 0 ? indexes.map(index => this.toGlobalSecondaryIndex(index)) : undefined,
     });
 
     try {
       await dynamoClient.send(command);
-    } catch (error) {
+    } catch (error: any) {
+      if (error?.name === 'ResourceInUseException') {
+        return false;
+      }
       ErrorUtil.throwError(null, error);
     }
+
+    await waitUntilTableExists({ client: dynamoClient, maxWaitTime: 60 }, { TableName: this.tableName });
+    return true;
   }
 
-  private async getDynamoClient(): Promise<DynamoDBClient> {
-    const secretName = process.env.PROJECT_SECRET!;
+  /**
+   * 複数の書き込みを TransactWriteItems でまとめて実行するトランザクションを作成する。
+   * 異なる DataAccessor (テーブル・DataType) の操作を混在させることができる。
+   */
+  public transaction(): DynamoDBTransaction {
+    return new DynamoDBTransaction(() => this.getDynamoClient());
+  }
 
-    if (process.env.PROCESS_ENV !== 'local') {
-      return new DynamoDBClient({
-        region: await SecretsManagerUtil.getSecretValue(secretName, 'AWS_REGION'),
-      });
+  /**
+   * 新規作成するレコードと、その PutItem / TransactWriteItems 用の入力を生成する。
+   */
+  public buildPut(creates: Partial<T>, options: CreateOptions = {}): { item: T; put: Put } {
+    if (!creates.DataType) {
+      ErrorUtil.throwError('DataType is required');
+    }
+
+    const item = this.buildNewItem(creates, options.id, options.ttl);
+
+    if (!options.ifNotExists) {
+      return {
+        item,
+        put: {
+          TableName: this.tableName,
+          Item: marshall(item, { removeUndefinedValues: true })
+        }
+      };
+    }
+
+    const attributes = new ExpressionAttributes();
+
+    return {
+      item,
+      put: {
+        TableName: this.tableName,
+        Item: marshall(item, { removeUndefinedValues: true }),
+        ConditionExpression: `attribute_not_exists(${attributes.name('ID')})`,
+        ExpressionAttributeNames: attributes.getNames()
+      }
+    };
+  }
+
+  /**
+   * UpdateItem / TransactWriteItems 用の更新入力を生成する。
+   * 対象のレコードが存在する (失効済みでない) 場合のみ成功する条件を含む。
+   */
+  public buildUpdate(
+    id: string,
+    dataType: string,
+    updates: RecordUpdates<T>,
+    options: UpdateOptions = {}
+  ): Update {
+    const now = Date.now();
+    updates.Update = now;
+
+    if (options.ttl?.basis === 'Update') {
+      updates.ExpiresAt = TtlUtil.calculateExpiresAt(options.ttl, now);
     }
 
-    return new DynamoDBClient({
-      region: await SecretsManagerUtil.getSecretValue(secretName, 'AWS_REGION'),
-      credentials: {
-        accessKeyId: await SecretsManagerUtil.getSecretValue(secretName, 'AWS_ACCESS_KEY'),
-        secretAccessKey: await SecretsManagerUtil.getSecretValue(secretName, 'AWS_SECRET_ACCESS_KEY')
+    const attributes = new ExpressionAttributes();
+    const setExprs: string[] = [];
+    const removeExprs: string[] = [];
+    const addExprs: string[] = [];
+    const deleteExprs: string[] = [];
+
+    const values = updates as Record<string, unknown>;
+
+    UpdateOperation.getUpdatePaths(values).forEach(k => {
+      const v = values[k];
+      const name = attributes.path(k);
+
+      if (v === null) {
+        removeExprs.push(name);
+        return;
+      }
+
+      if (!(v instanceof UpdateOperation)) {
+        setExprs.push(`${name} = ${attributes.value(v)}`);
+        return;
+      }
+
+      switch (v.type) {
+        case 'add':
+          addExprs.push(`${name} ${attributes.value(v.value)}`);
+          break;
+        case 'append':
+          setExprs.push(`${name} = list_append(if_not_exists(${name}, ${attributes.value([])}), ${attributes.value(v.value)})`);
+          break;
+        case 'deleteFromSet':
+          deleteExprs.push(`${name} ${attributes.value(v.value)}`);
+          break;
+        case 'ifNotExists':
+          setExprs.push(`${name} = if_not_exists(${name}, ${attributes.value(v.value)})`);
+          break;
       }
     });
+
+    if (setExprs.length + removeExprs.length + addExprs.length + deleteExprs.length === 0) {
+      ErrorUtil.throwError('No fields to update');
+    }
+
+    // Version は書き込みのたびにインクリメントする (Version を持たない既存レコードは 0 とみなす)
+    const version = attributes.name('Version');
+    setExprs.unshift(`${version} = if_not_exists(${version}, ${attributes.value(0)}) + ${attributes.value(1)}`);
+
+    const expiresAt = attributes.name('ExpiresAt');
+
+    let updateExpr = 'SET ' + setExprs.join(', ');
+    if (removeExprs.length > 0) {
+      updateExpr += ' REMOVE ' + removeExprs.join(', ');
+    }
+    if (addExprs.length > 0) {
+      updateExpr += ' ADD ' + addExprs.join(', ');
+    }
+    if (deleteExprs.length > 0) {
+      updateExpr += ' DELETE ' + deleteExprs.join(', ');
+    }
+
+    return {
+      TableName: this.tableName,
+      Key: marshall({ ID: id, DataType: dataType }),
+      UpdateExpression: updateExpr,
+      // 存在しないレコードは作成しない (Version の条件は既存のレコードにのみ一致する)
+      // TTL による削除を待っている失効済みのレコードも存在しないものとして扱う
+      ConditionExpression: [
+        this.buildVersionCondition(options.expectedVersion, attributes) || `attribute_exists(${attributes.name('ID')})`,
+        `(attribute_not_exists(${expiresAt}) OR ${expiresAt} > ${attributes.value(Math.floor(now / 1000))})`,
+        options.excludeDeleted && `attribute_not_exists(${attributes.name('Deleted')})`,
+      ].filter(Boolean).join(' AND '),
+      ExpressionAttributeNames: attributes.getNames(),
+      ExpressionAttributeValues: attributes.getValues()
+    };
+  }
+
+  /**
+   * DeleteItem / TransactWriteItems 用の削除入力を生成する。
+   */
+  public buildDelete(id: string, dataType: string, options: ConditionalWriteOptions = {}): Delete {
+    const attributes = new ExpressionAttributes();
+    const conditionExpression = this.buildVersionCondition(options.expectedVersion, attributes);
+
+    return {
+      TableName: this.tableName,
+      Key: marshall({ ID: id, DataType: dataType }),
+      ConditionExpression: conditionExpression,
+      ExpressionAttributeNames: attributes.getNames(),
+      ExpressionAttributeValues: attributes.getValues()
+    };
+  }
+
+  /**
+   * TransactWriteItems 用の条件チェック入力を生成する。
+   * 対象レコードが存在し、かつ condition をすべて満たす場合のみ成功する。
+   */
+  public buildConditionCheck(id: string, dataType: string, condition: QueryCondition<T>): ConditionCheck {
+    const attributes = new ExpressionAttributes();
+    const conditionExpression = [
+      `attribute_exists(${attributes.name('ID')})`,
+      DynamoDBExpressionUtil.buildConditionExpression(condition, attributes)
+    ].filter(Boolean).join(' AND ');
+
+    return {
+      TableName: this.tableName,
+      Key: marshall({ ID: id, DataType: dataType }),
+      ConditionExpression: conditionExpression,
+      ExpressionAttributeNames: attributes.getNames(),
+      ExpressionAttributeValues: attributes.getValues()
+    };
+  }
+
+  private buildNewItem(creates: Partial<T>, id?: string, ttl?: TtlPolicy): T {
+    const now = Date.now();
+
+    return {
+      ...creates,
+      ID: id || CommonUtil.generateUUID(),
+      Create: now,
+      Update: now,
+      Version: 1,
+      ...(ttl && { ExpiresAt: TtlUtil.calculateExpiresAt(ttl, now) })
+    } as T;
+  }
+
+  private async batchWrite(requests: WriteRequest[]): Promise<void> {
+    const dynamoClient = await this.getDynamoClient();
+
+    for (const chunk of CommonUtil.chunk(requests, DynamoDBService.BATCH_WRITE_LIMIT)) {
+      let pending = chunk;
+
+      for (let attempt = 0; pending.length > 0; attempt++) {
+        if (attempt > 0) {
+          await this.waitForRetry(attempt, pending.length);
+        }
+
+        const command = new BatchWriteItemCommand({
+          RequestItems: { [this.tableName]: pending }
+        });
+
+        try {
+          const response = await dynamoClient.send(command);
+          pending = response.UnprocessedItems?.[this.tableName] || [];
+        } catch (error) {
+          ErrorUtil.throwError(null, error);
+        }
+      }
+    }
+  }
+
+  private async waitForRetry(attempt: number, pendingCount: number): Promise<void> {
+    if (attempt > DynamoDBService.BATCH_MAX_RETRIES) {
+      ErrorUtil.throwError(`Failed to process ${pendingCount} batch requests after ${DynamoDBService.BATCH_MAX_RETRIES} retries`);
+    }
+
+    const delay = DynamoDBService.BATCH_RETRY_BASE_DELAY * 2 ** (attempt - 1);
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+
+  // InMemoryStorageBackend と同じく Create・ID の順に並べ、最後のアイテムのキーを次の開始位置とする
+  private async findSortedPage(dataTypeValue: string, condition: QueryCondition<T>, options: PageOptions): Promise<Page<T>> {
+    const direction = options.sort === 'desc' ? -1 : 1;
+    const compare = (a: RecordTypeBase, b: RecordTypeBase) =>
+      direction * ((a.Create || 0) - (b.Create || 0) || (a.ID! < b.ID! ? -1 : a.ID! > b.ID! ? 1 : 0));
+
+    const items = (await this.find(dataTypeValue, condition)).sort(compare);
+    const start = options.exclusiveStartKey ? items.findIndex(item => compare(item, options.exclusiveStartKey!) > 0) : 0;
+    const page = start === -1 ? [] : items.slice(start, start + options.limit);
+    const last = page[page.length - 1];
+
+    return {
+      items: page,
+      lastEvaluatedKey: start !== -1 && start + options.limit < items.length
+        ? { ID: last.ID, DataType: last.DataType, Create: last.Create }
+        : undefined,
+    };
+  }
+
+  private buildVersionCondition(expectedVersion: number | undefined, attributes: ExpressionAttributes): string | undefined {
+    if (expectedVersion === undefined) {
+      return undefined;
+    }
+
+    // Version を持たない既存レコードは Version 0 として扱う
+    if (expectedVersion === 0) {
+      return `attribute_exists(${attributes.name('ID')}) AND attribute_not_exists(${attributes.name('Version')})`;
+    }
+
+    return `${attributes.name('Version')} = ${attributes.value(expectedVersion)}`;
+  }
+
+  private isConditionalCheckFailed(error: unknown): boolean {
+    return error instanceof Error && error.name === 'ConditionalCheckFailedException';
+  }
+
+  // 条件を満たさなかったときのレコード (ALL_OLD) から、レコードが存在しない (論理削除・失効済みを含む) かを判定する
+  private isMissingItem(item: Record<string, AttributeValue> | undefined, options: UpdateOptions): boolean {
+    return !item
+      || (options.excludeDeleted === true && item.Deleted !== undefined)
+      || TtlUtil.isExpired(unmarshall(item) as RecordTypeBase);
+  }
+
+  private throwWriteError(id: string, error: unknown): never {
+    if (this.isConditionalCheckFailed(error)) {
+      throw new ConflictError(`Version conflict for item with id: ${id}`);
+    }
+
+    ErrorUtil.throwError(null, error);
+  }
+
+  private async *iterateScan(input: ScanCommandInput, projection?: ProjectionAttributes<T>): AsyncGenerator<T[]> {
+    const dynamoClient = await this.getDynamoClient();
+
+    yield* this.iteratePages(exclusiveStartKey => dynamoClient.send(new ScanCommand({
+      ...input,
+      ExclusiveStartKey: exclusiveStartKey
+    })), projection);
+  }
+
+  private async *iterateQuery(input: QueryCommandInput, projection?: ProjectionAttributes<T>): AsyncGenerator<T[]> {
+    const dynamoClient = await this.getDynamoClient();
+
+    yield* this.iteratePages(exclusiveStartKey => dynamoClient.send(new QueryCommand({
+      ...input,
+      ExclusiveStartKey: exclusiveStartKey
+    })), projection);
+  }
+
+  private async *iteratePages(
+    send: (exclusiveStartKey: ExclusiveStartKey) => Promise<PageResponse>,
+    projection?: ProjectionAttributes<T>
+  ): AsyncGenerator<T[]> {
+    for await (const page of this.iterateRawPages(send)) {
+      const items = this.toItems(page, projection);
+
+      // フィルタで全件除外されたページは返さない
+      if (items.length > 0) {
+        yield items;
+      }
+    }
+  }
+
+  // LastEvaluatedKey がなくなるまでリクエストを繰り返す
+  private async *iterateRawPages(
+    send: (exclusiveStartKey: ExclusiveStartKey) => Promise<PageResponse>
+  ): AsyncGenerator<Record<string, AttributeValue>[]> {
+    let exclusiveStartKey: ExclusiveStartKey;
+
+    do {
+      let response: PageResponse;
+      try {
+        response = await send(exclusiveStartKey);
+      } catch (error) {
+        ErrorUtil.throwError(null, error);
+      }
+
+      if (response.Items && response.Items.length > 0) {
+        yield response.Items;
+      }
+
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+  }
+
+  // 失効の判定に ExpiresAt が必要なため、指定の有無に関わらず取得する
+  private buildProjectionExpression(projection: ProjectionAttributes<T> | undefined, attributes: ExpressionAttributes): string | undefined {
+    if (!projection || projection.length === 0) {
+      return undefined;
+    }
+
+    return Array.from(new Set([...projection, 'ExpiresAt'])).map(name => attributes.name(name)).join(', ');
+  }
+
+  // 失効済みのアイテムを除外し、projection の指定があれば判定用に取得した属性を取り除く
+  private toItems(rawItems: Record<string, AttributeValue>[], projection?: ProjectionAttributes<T>): T[] {
+    const items = this.excludeExpired(rawItems.map(item => unmarshall(item) as T));
+
+    if (!projection || projection.length === 0) {
+      return items;
+    }
+
+    return items.map(item => CommonUtil.pick(item, projection) as T);
+  }
+
+  private excludeExpired(items: T[]): T[] {
+    const now = Date.now();
+    return items.filter(item => !TtlUtil.isExpired(item, now));
+  }
+
+  private async collectPages(pages: AsyncGenerator<T[]>): Promise<T[]> {
+    const results: T[] = [];
+
+    for await (const page of pages) {
+      results.push(...page);
+    }
+
+    return results;
+  }
+
+  private getIndexSchemas(options: CreateTableOptions): GlobalSecondaryIndexSchema[] {
+    const indexes = [...(options.globalSecondaryIndexes || [])];
+
+    if (this.dataTypeIndexName && !indexes.some(index => index.indexName === this.dataTypeIndexName)) {
+      // Create をソートキーにして、findPage で作成日時の順に取得できるようにする
+      indexes.push({ indexName: this.dataTypeIndexName, partitionKey: 'DataType', sortKey: 'Create', sortKeyType: 'N' });
+    }
+
+    return indexes;
+  }
+
+  private toGlobalSecondaryIndex(index: GlobalSecondaryIndexSchema): GlobalSecondaryIndex {
+    return {
+      IndexName: index.indexName,
+      KeySchema: [
+        { AttributeName: index.partitionKey, KeyType: 'HASH' },
+        ...(index.sortKey ? [{ AttributeName: index.sortKey, KeyType: 'RANGE' as const }] : [])
+      ],
+      Projection: { ProjectionType: 'ALL' },
+    };
+  }
+
+  private async getDynamoClient(): Promise<DynamoDBClient> {
+    return this.client || await AWSClientFactory.getClient(DynamoDBClient, { endpoint: this.endpoint });
   }
 }
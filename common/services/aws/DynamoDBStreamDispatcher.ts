@@ -0,0 +1,160 @@
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+
+import DataAccessorBase from '@common/services/DataAccessorBase';
+import MigrationRegistry from '@common/services/migration/MigrationRegistry';
+import DynamoDBExportUtil from '@common/utils/DynamoDBExportUtil';
+import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+import {
+  DynamoDBStreamEvent,
+  DynamoDBStreamRecord,
+  StreamBatchResponse,
+  StreamHandlers
+} from '@common/interfaces/stream/DynamoDBStreamEvent';
+
+export interface StreamDispatcherOptions {
+  /**
+   * レコードの処理に失敗したときに呼び出される (ログの出力先はアプリケーションで指定する)。
+   * 失敗したレコードは onError の後に batchItemFailures として返す。
+   */
+  onError: (error: Error, record: DynamoDBStreamRecord) => Promise<void> | void;
+}
+
+type StreamImageName = 'NewImage' | 'OldImage';
+
+/**
+ * DynamoDB Streams のレコードを DataType ごとに登録した処理に振り分ける。
+ * イメージは RecordType に変換し、移行処理が登録されている場合は最新の SchemaVersion の形式にして渡す。
+ * ストリームの表示タイプは NEW_AND_OLD_IMAGES、Lambda のイベントソースは ReportBatchItemFailures を有効にすること。
+ *
+ * @example
+ * const dispatcher = new DynamoDBStreamDispatcher({ onError: (error, record) => logger.error(record.eventID, error) })
+ *   .on<SubscriptionRecordType>('Subscription', {
+ *     insert: async ({ newImage }) => await notificationService.send(newImage),
+ *   });
+ *
+ * export const handler = (event: DynamoDBStreamEvent) => dispatcher.dispatch(event);
+ */
+export default class DynamoDBStreamDispatcher {
+  private readonly routes: Record<string, StreamHandlers<any>[]> = {};
+  private readonly onError: (error: Error, record: DynamoDBStreamRecord) => Promise<void> | void;
+
+  constructor(options: StreamDispatcherOptions) {
+    this.onError = options.onError;
+  }
+
+  /**
+   * DataType の処理を登録する。同じ DataType に複数登録した場合は登録順に呼び出す。
+   * 子レコード (`<childType>#<childId>`) は、DataType で登録がなければ childType で振り分ける。
+   */
+  public on<T extends RecordTypeBase>(dataType: string, handlers: StreamHandlers<T>): this {
+    this.routes[dataType] = [...(this.routes[dataType] || []), handlers];
+    return this;
+  }
+
+  /**
+   * イベントのレコードを順に処理する。
+   * シャード内の順序を保つため、失敗したレコード以降は処理せず、失敗したレコードを batchItemFailures として返す
+   * (Lambda はそのレコードから再試行する)。
+   */
+  public async dispatch(event: DynamoDBStreamEvent): Promise<StreamBatchResponse> {
+    for (const record of event.Records) {
+      try {
+        await this.dispatchRecord(record);
+      } catch (error) {
+        const failure = error instanceof Error ? error : new Error(String(error));
+        await this.onError(failure, record);
+
+        const sequenceNumber = record.dynamodb?.SequenceNumber;
+
+        // 再試行の位置を指定できない場合はバッチ全体を失敗させる
+        if (!sequenceNumber) {
+          throw failure;
+        }
+
+        return { batchItemFailures: [{ itemIdentifier: sequenceNumber }] };
+      }
+    }
+
+    return { batchItemFailures: [] };
+  }
+
+  private async dispatchRecord(record: DynamoDBStreamRecord): Promise<void> {
+    const keys = record.dynamodb?.Keys ? unmarshall(DynamoDBExportUtil.fromJsonItem(record.dynamodb.Keys)) : {};
+
+    // ID / DataType をキーとしないテーブルのレコードは対象外
+    if (typeof keys.ID !== 'string' || typeof keys.DataType !== 'string') {
+      return;
+    }
+
+    const handlersList = this.getHandlers(keys.DataType);
+
+    if (handlersList.length === 0) {
+      return;
+    }
+
+    const base = {
+      eventID: record.eventID,
+      sequenceNumber: record.dynamodb?.SequenceNumber,
+      id: keys.ID,
+      dataType: keys.DataType,
+    };
+
+    switch (record.eventName) {
+      case 'INSERT': {
+        const change = { ...base, eventName: record.eventName, newImage: this.getImage(record, 'NewImage', keys.DataType) };
+
+        for (const handlers of handlersList) {
+          await handlers.insert?.(change);
+        }
+        return;
+      }
+      case 'MODIFY': {
+        const change = {
+          ...base,
+          eventName: record.eventName,
+          newImage: this.getImage(record, 'NewImage', keys.DataType),
+          oldImage: this.getImage(record, 'OldImage', keys.DataType),
+        };
+
+        for (const handlers of handlersList) {
+          await handlers.modify?.(change);
+        }
+        return;
+      }
+      case 'REMOVE': {
+        const change = {
+          ...base,
+          eventName: record.eventName,
+          oldImage: this.getImage(record, 'OldImage', keys.DataType),
+          expired: record.userIdentity?.type === 'Service' && record.userIdentity.principalId === 'dynamodb.amazonaws.com',
+        };
+
+        for (const handlers of handlersList) {
+          await handlers.remove?.(change);
+        }
+        return;
+      }
+      default:
+        throw new Error(`Unsupported stream event: ${record.eventName}`);
+    }
+  }
+
+  private getHandlers(dataType: string): StreamHandlers<any>[] {
+    if (this.routes[dataType]) {
+      return this.routes[dataType];
+    }
+
+    const child = DataAccessorBase.parseChildDataType(dataType);
+    return (child && this.routes[child.childType]) || [];
+  }
+
+  private getImage(record: DynamoDBStreamRecord, name: StreamImageName, dataType: string): RecordTypeBase {
+    const image = record.dynamodb?.[name];
+
+    if (!image) {
+      throw new Error(`${name} is missing from the stream record. Set StreamViewType to NEW_AND_OLD_IMAGES`);
+    }
+
+    return MigrationRegistry.migrate(dataType, unmarshall(DynamoDBExportUtil.fromJsonItem(image)) as RecordTypeBase);
+  }
+}
@@ -0,0 +1,241 @@
+import { DynamoDBClient, Put, TransactWriteItem, TransactWriteItemsCommand } from '@aws-sdk/client-dynamodb';
+
+import DataAccessorBase from '@common/services/DataAccessorBase';
+import DynamoDBService from '@common/services/aws/DynamoDBService';
+import ErrorUtil from '@common/utils/ErrorUtil';
+import { ConditionalWriteOptions, CreateOptions } from '@common/interfaces/storage/StorageBackend';
+import { RecordUpdates } from '@common/services/storage/UpdateOperation';
+import { QueryCondition } from '@common/interfaces/query/QueryCondition';
+import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+import { TransactionConflictError, TransactionStepOperation } from '@common/errors';
+
+export interface TransactionStep {
+  operation: TransactionStepOperation;
+  accessor: DataAccessorBase<any>;
+  id: string;
+  dataType: string;
+  item?: RecordTypeBase;
+  put?: Put;
+  updates?: RecordUpdates<RecordTypeBase>;
+  condition?: QueryCondition<any>;
+  options?: ConditionalWriteOptions;
+  createOptions?: CreateOptions;
+}
+
+/**
+ * TransactWriteItems のビルダー
+ * 追加したステップはすべて成功するか、すべて失敗する。
+ *
+ * @example
+ * await dynamoDBService.transaction()
+ *   .delete(authDataAccessor, userId)
+ *   .delete(subscriptionDataAccessor, subscriptionId)
+ *   .commit();
+ */
+export default class DynamoDBTransaction {
+  // TransactWriteItems の 1 リクエストあたりの上限
+  private static readonly MAX_STEPS = 100;
+
+  protected readonly steps: TransactionStep[] = [];
+  private readonly getClient: () => Promise<DynamoDBClient>;
+
+  constructor(getClient: () => Promise<DynamoDBClient>) {
+    this.getClient = getClient;
+  }
+
+  public put<T extends RecordTypeBase>(
+    accessor: DataAccessorBase<T>,
+    creates: Partial<T>,
+    createOptions?: CreateOptions
+  ): this {
+    accessor.validate(creates);
+
+    const schemaVersion = accessor.getSchemaVersion();
+    const { item, put } = DynamoDBTransaction.getService(accessor).buildPut(
+      { ...creates, DataType: accessor.getDataType(), ...(schemaVersion > 0 && { SchemaVersion: schemaVersion }) },
+      { ...createOptions, ttl: accessor.getTtlPolicy() }
+    );
+    return this.addStep({ operation: 'put', accessor, id: item.ID!, dataType: item.DataType!, item, put, createOptions });
+  }
+
+  /**
+   * DataAccessor と異なる DataType (監査ログなど) のレコードを作成する。
+   * スキーマの検証・SchemaVersion・TTL は適用しない。
+   */
+  public putRecord<T extends RecordTypeBase>(
+    accessor: DataAccessorBase<T>,
+    record: Partial<T>,
+    createOptions?: CreateOptions
+  ): this {
+    const { item, put } = DynamoDBTransaction.getService(accessor).buildPut(record, createOptions);
+    return this.addStep({ operation: 'put', accessor, id: item.ID!, dataType: item.DataType!, item, put, createOptions });
+  }
+
+  public update<T extends RecordTypeBase>(
+    accessor: DataAccessorBase<T>,
+    id: string,
+    updates: RecordUpdates<T>,
+    options?: ConditionalWriteOptions
+  ): this {
+    accessor.validate(updates, true);
+
+    return this.addStep({ operation: 'update', accessor, id, dataType: accessor.getDataType(), updates, options });
+  }
+
+  public delete<T extends RecordTypeBase>(
+    accessor: DataAccessorBase<T>,
+    id: string,
+    options?: ConditionalWriteOptions
+  ): this {
+    return this.addStep({ operation: 'delete', accessor, id, dataType: accessor.getDataType(), options });
+  }
+
+  /**
+   * 論理削除したレコードを復元する。DataAccessor で論理削除が有効な場合のみ使用できる。
+   */
+  public restore<T extends RecordTypeBase>(
+    accessor: DataAccessorBase<T>,
+    id: string,
+    options?: ConditionalWriteOptions
+  ): this {
+    if (!accessor.isSoftDeleteEnabled()) {
+      throw new Error(`Soft delete is not enabled for DataType: ${accessor.getDataType()}`);
+    }
+
+    return this.addStep({ operation: 'restore', accessor, id, dataType: accessor.getDataType(), options });
+  }
+
+  /**
+   * 論理削除の設定に関わらず、レコードを物理削除する。
+   */
+  public purge<T extends RecordTypeBase>(
+    accessor: DataAccessorBase<T>,
+    id: string,
+    options?: ConditionalWriteOptions
+  ): this {
+    return this.addStep({ operation: 'purge', accessor, id, dataType: accessor.getDataType(), options });
+  }
+
+  /**
+   * 書き込みは行わず、対象レコードが存在して condition を満たすことをトランザクションの成立条件にする。
+   */
+  public conditionCheck<T extends RecordTypeBase>(
+    accessor: DataAccessorBase<T>,
+    id: string,
+    condition: QueryCondition<T> = {}
+  ): this {
+    return this.addStep({ operation: 'conditionCheck', accessor, id, dataType: accessor.getDataType(), condition });
+  }
+
+  /**
+   * トランザクションを実行する。
+   * いずれかのステップの条件を満たさない場合は TransactionConflictError をスローする。
+   * @returns put ステップで作成したレコード (追加順)
+   */
+  public async commit(): Promise<RecordTypeBase[]> {
+    if (this.steps.length === 0) {
+      return [];
+    }
+
+    const dynamoClient = await this.getClient();
+
+    const command = new TransactWriteItemsCommand({
+      TransactItems: this.steps.map(step => this.toTransactItem(step))
+    });
+
+    try {
+      await dynamoClient.send(command);
+    } catch (error: any) {
+      if (error?.name === 'TransactionCanceledException') {
+        this.throwIfConditionFailed(error.CancellationReasons || []);
+      }
+      ErrorUtil.throwError(null, error);
+    }
+
+    return this.getCreatedItems();
+  }
+
+  /**
+   * 追加済みの put ステップで作成するレコード (追加順)
+   */
+  public getCreatedItems(): RecordTypeBase[] {
+    return this.steps
+      .filter(step => step.operation === 'put')
+      .map(step => step.item!);
+  }
+
+  protected throwConflict(failedIndexes: number[]): never {
+    const failedSteps = failedIndexes.map(index => ({
+      index,
+      operation: this.steps[index].operation,
+      dataType: this.steps[index].dataType,
+      id: this.steps[index].id,
+    }));
+
+    throw new TransactionConflictError(
+      `Transaction condition failed at step ${failedIndexes.join(', ')}`,
+      failedSteps
+    );
+  }
+
+  // 式の生成に DynamoDBService を使用するため、他の保存先を使用する DataAccessor は含められない
+  private static getService<T extends RecordTypeBase>(accessor: DataAccessorBase<T>): DynamoDBService<T> {
+    const backend = accessor.getBackend();
+
+    if (!(backend instanceof DynamoDBService)) {
+      throw new Error(`Transactions require DynamoDBService as the backend of DataType: ${accessor.getDataType()}`);
+    }
+
+    return backend;
+  }
+
+  private addStep(step: TransactionStep): this {
+    if (this.steps.length >= DynamoDBTransaction.MAX_STEPS) {
+      throw new Error(`A transaction can contain at most ${DynamoDBTransaction.MAX_STEPS} steps`);
+    }
+
+    this.steps.push(step);
+    return this;
+  }
+
+  private toTransactItem(step: TransactionStep): TransactWriteItem {
+    const service = DynamoDBTransaction.getService(step.accessor);
+    const dataType = step.dataType;
+    const updateOptions = { ...step.options, ttl: step.accessor.getTtlPolicy() };
+
+    switch (step.operation) {
+      case 'put':
+        return { Put: step.put };
+      case 'update':
+        return {
+          Update: service.buildUpdate(step.id, dataType, { ...step.updates }, {
+            ...updateOptions,
+            excludeDeleted: step.accessor.isSoftDeleteEnabled(),
+          })
+        };
+      case 'delete':
+        // 論理削除が有効な DataAccessor では Deleted の設定に置き換える
+        if (step.accessor.isSoftDeleteEnabled()) {
+          return { Update: service.buildUpdate(step.id, dataType, { Deleted: Date.now() }, updateOptions) };
+        }
+        return { Delete: service.buildDelete(step.id, dataType, step.options) };
+      case 'restore':
+        return { Update: service.buildUpdate(step.id, dataType, { Deleted: null }, updateOptions) };
+      case 'purge':
+        return { Delete: service.buildDelete(step.id, dataType, step.options) };
+      case 'conditionCheck':
+        return { ConditionCheck: service.buildConditionCheck(step.id, dataType, step.condition || {}) };
+    }
+  }
+
+  // CancellationReasons はステップと同じ順序で返される
+  private throwIfConditionFailed(reasons: { Code?: string }[]): void {
+    const failedIndexes = reasons
+      .map((reason, index) => reason.Code === 'ConditionalCheckFailed' ? index : -1)
+      .filter(index => index !== -1);
+
+    if (failedIndexes.length > 0) {
+      this.throwConflict(failedIndexes);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { RecordMigration } from '@common/interfaces/migration/RecordMigration';
+import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+
+/**
+ * DataType ごとのレコード移行処理を保持する。
+ */
+export default class MigrationRegistry {
+  private static migrations: Record<string, RecordMigration[]> = {};
+
+  /**
+   * DataType の移行処理を登録する。登録済みの移行処理は置き換える。
+   * version は 1 から始まる連番であること。
+   */
+  public static register(dataType: string, migrations: RecordMigration[]): void {
+    const sorted = [...migrations].sort((a, b) => a.version - b.version);
+
+    sorted.forEach((migration, index) => {
+      if (migration.version !== index + 1) {
+        throw new Error(`Migration versions for DataType: ${dataType} must be consecutive from 1`);
+      }
+    });
+
+    this.migrations[dataType] = sorted;
+  }
+
+  public static clear(): void {
+    this.migrations = {};
+  }
+
+  /**
+   * DataType の最新の SchemaVersion を返す。移行処理が未登録の場合は 0。
+   */
+  public static getLatestVersion(dataType: string): number {
+    const migrations = this.migrations[dataType] || [];
+    return migrations.length;
+  }
+
+  public static needsMigration(dataType: string, record: RecordTypeBase): boolean {
+    return (record.SchemaVersion || 0) < this.getLatestVersion(dataType);
+  }
+
+  /**
+   * レコードを最新の SchemaVersion の形式に変換する。最新の場合はそのまま返す。
+   */
+  public static migrate<T extends RecordTypeBase>(dataType: string, record: T): T {
+    if (!this.needsMigration(dataType, record)) {
+      return record;
+    }
+
+    const current = record.SchemaVersion || 0;
+
+    return this.migrations[dataType]
+      .filter(migration => migration.version > current)
+      .reduce((migrated, migration) => ({ ...migration.up(migrated), SchemaVersion: migration.version }), record as Record<string, any>) as T;
+  }
+}
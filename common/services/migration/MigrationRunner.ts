@@ -0,0 +1,74 @@
+import DataAccessorBase from '@common/services/DataAccessorBase';
+import MigrationRegistry from '@common/services/migration/MigrationRegistry';
+import { MigrationProgress, MigrationResult } from '@common/interfaces/migration/RecordMigration';
+import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+
+export interface MigrationRunOptions {
+  /**
+   * true の場合は保存せず、移行対象の件数のみを集計する。
+   */
+  dryRun?: boolean;
+  pageSize?: number;
+  /**
+   * ページを処理するたびに、それまでの累計で呼び出される。
+   */
+  onProgress?: (progress: MigrationProgress) => void;
+}
+
+/**
+ * DataType の全レコードを最新の SchemaVersion の形式に書き換える。
+ * 論理削除されたレコードも対象とする。
+ *
+ * @example
+ * const result = await new MigrationRunner(authDataAccessor).run({
+ *   dryRun: true,
+ *   onProgress: progress => console.log(progress),
+ * });
+ */
+export default class MigrationRunner<T extends RecordTypeBase> {
+  private readonly dataAccessor: DataAccessorBase<T>;
+
+  constructor(dataAccessor: DataAccessorBase<T>) {
+    this.dataAccessor = dataAccessor;
+  }
+
+  /**
+   * 移行を実行する。個々のレコードの保存に失敗しても処理を継続し、結果の errors に記録する。
+   */
+  public async run(options: MigrationRunOptions = {}): Promise<MigrationResult> {
+    const dataType = this.dataAccessor.getDataType();
+    const result: MigrationResult = {
+      scanned: 0,
+      migrated: 0,
+      failed: 0,
+      dryRun: options.dryRun === true,
+      errors: [],
+    };
+
+    const pages = this.dataAccessor.getBackend().iterateByDataType(dataType, options.pageSize);
+
+    for await (const page of pages) {
+      for (const item of page) {
+        result.scanned++;
+
+        if (!MigrationRegistry.needsMigration(dataType, item)) {
+          continue;
+        }
+
+        try {
+          await this.dataAccessor.migrate(item, !result.dryRun);
+          result.migrated++;
+        } catch (error) {
+          result.failed++;
+          result.errors.push({ id: item.ID!, error: error instanceof Error ? error : new Error(String(error)) });
+        }
+      }
+
+      if (options.onProgress) {
+        options.onProgress({ scanned: result.scanned, migrated: result.migrated, failed: result.failed });
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,288 @@
+import {
+  ConditionalWriteOptions,
+  CreateOptions,
+  Page,
+  PageOptions,
+  ProjectionAttributes,
+  ReturnValuesOptions,
+  StorageBackend,
+  UpdateOptions,
+  UpdateResult,
+  UpdateReturnValues
+} from '@common/interfaces/storage/StorageBackend';
+import { QueryCondition } from '@common/interfaces/query/QueryCondition';
+import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+import CommonUtil from '@common/utils/CommonUtil';
+import QueryConditionUtil from '@common/utils/QueryConditionUtil';
+import TtlUtil from '@common/utils/TtlUtil';
+import UpdateOperation, { RecordUpdates } from '@common/services/storage/UpdateOperation';
+import { AlreadyExistsError, ConflictError } from '@common/errors';
+
+/**
+ * レコードをプロセス内のメモリに保存する StorageBackend。
+ * 検索条件・更新操作・Version・TTL の扱いは DynamoDBService と同じ。テストや開発環境で使用する。
+ *
+ * @example
+ * const accessor = new MyDataAccessor(new InMemoryStorageBackend<MyRecordType>('MyTable'));
+ */
+export default class InMemoryStorageBackend<T extends RecordTypeBase> implements StorageBackend<T> {
+  private readonly tableName: string;
+  private items: T[] = [];
+
+  constructor(tableName: string) {
+    this.tableName = tableName;
+  }
+
+  public getTableName(): string {
+    return this.tableName;
+  }
+
+  public async getAll(): Promise<T[]> {
+    return this.getAliveItems();
+  }
+
+  public async getAllByDataType(dataTypeValue: string, projection?: ProjectionAttributes<T>): Promise<T[]> {
+    return this.project(this.getAliveItems().filter(item => item.DataType === dataTypeValue), projection);
+  }
+
+  public async *iterateByDataType(dataTypeValue: string, pageSize?: number): AsyncGenerator<T[]> {
+    yield* this.iterateFind(dataTypeValue, {}, pageSize);
+  }
+
+  public async find(dataTypeValue: string, condition: QueryCondition<T>, projection?: ProjectionAttributes<T>): Promise<T[]> {
+    return this.project(
+      (await this.getAllByDataType(dataTypeValue)).filter(item => QueryConditionUtil.matches(item, condition)),
+      projection
+    );
+  }
+
+  public async *iterateFind(
+    dataTypeValue: string,
+    condition: QueryCondition<T>,
+    pageSize?: number,
+    projection?: ProjectionAttributes<T>
+  ): AsyncGenerator<T[]> {
+    const items = await this.find(dataTypeValue, condition, projection);
+    const size = pageSize || items.length;
+
+    for (let i = 0; i < items.length; i += size) {
+      yield items.slice(i, i + size);
+    }
+  }
+
+  public async findPage(dataTypeValue: string, condition: QueryCondition<T>, options: PageOptions): Promise<Page<T>> {
+    // DataType 用 GSI (ソートキー Create) への Query と同様に、条件の評価前の件数で区切る
+    const direction = options.sort === 'desc' ? -1 : 1;
+    const compare = (a: RecordTypeBase, b: RecordTypeBase) =>
+      direction * ((a.Create || 0) - (b.Create || 0) || (a.ID! < b.ID! ? -1 : a.ID! > b.ID! ? 1 : 0));
+
+    const items = (await this.getAllByDataType(dataTypeValue)).sort(compare);
+    const start = options.exclusiveStartKey ? items.findIndex(item => compare(item, options.exclusiveStartKey!) > 0) : 0;
+    const evaluated = start === -1 ? [] : items.slice(start, start + options.limit);
+    const last = evaluated[evaluated.length - 1];
+
+    return {
+      items: evaluated.filter(item => QueryConditionUtil.matches(item, condition)),
+      lastEvaluatedKey: start !== -1 && start + options.limit < items.length
+        ? { ID: last.ID, DataType: last.DataType, Create: last.Create }
+        : undefined,
+    };
+  }
+
+  public async findByDataTypePrefix(id: string, dataTypePrefix: string): Promise<T[]> {
+    // Query と同様にソートキー (DataType) の昇順で返す
+    return this.getAliveItems()
+      .filter(item => item.ID === id && (item.DataType || '').startsWith(dataTypePrefix))
+      .sort((a, b) => (a.DataType! < b.DataType! ? -1 : a.DataType! > b.DataType! ? 1 : 0));
+  }
+
+  public async getById(id: string, dataType?: string, projection?: ProjectionAttributes<T>): Promise<T | null> {
+    const item = this.getAliveItems().find(item => item.ID === id && (!dataType || item.DataType === dataType));
+    return item ? this.project([item], projection)[0] : null;
+  }
+
+  public async batchGetByIds(ids: string[], dataType: string): Promise<T[]> {
+    const uniqueIds = Array.from(new Set(ids));
+    return uniqueIds
+      .map(id => this.getAliveItems().find(item => item.ID === id && item.DataType === dataType))
+      .filter((item): item is T => item !== undefined);
+  }
+
+  public async create(creates: Partial<T>, options: CreateOptions = {}): Promise<T> {
+    if (!creates.DataType) {
+      throw new Error('DataType is required');
+    }
+
+    const now = Date.now();
+    const item: T = {
+      ...creates,
+      ID: options.id || CommonUtil.generateUUID(),
+      Create: now,
+      Update: now,
+      Version: 1,
+      ...(options.ttl && { ExpiresAt: TtlUtil.calculateExpiresAt(options.ttl, now) }),
+    } as T;
+
+    if (options.ifNotExists && await this.getById(item.ID!, item.DataType!)) {
+      throw new AlreadyExistsError(`Item already exists with id: ${item.ID}`);
+    }
+
+    this.putItem(item);
+
+    return item;
+  }
+
+  public async batchCreate(creates: Partial<T>[], options: Pick<CreateOptions, 'ttl'> = {}): Promise<T[]> {
+    const items: T[] = [];
+
+    for (const create of creates) {
+      items.push(await this.create(create, options));
+    }
+
+    return items;
+  }
+
+  public async update<R extends UpdateReturnValues = 'ALL_NEW'>(
+    id: string,
+    dataType: string,
+    updates: RecordUpdates<T>,
+    options: UpdateOptions & ReturnValuesOptions<R> = {}
+  ): Promise<UpdateResult<T, R> | null> {
+    const now = Date.now();
+    const values: Record<string, unknown> = {
+      ...updates as Record<string, unknown>,
+      Update: now,
+      ...(options.ttl?.basis === 'Update' && { ExpiresAt: TtlUtil.calculateExpiresAt(options.ttl, now) }),
+    };
+
+    const paths = UpdateOperation.getUpdatePaths(values);
+
+    const index = this.items.findIndex(item => item.ID === id && item.DataType === dataType);
+
+    // 存在しないレコード (論理削除・失効済みを含む) は作成・更新しない
+    if (index === -1 || (options.excludeDeleted && this.items[index].Deleted !== undefined) || TtlUtil.isExpired(this.items[index], now)) {
+      return null;
+    }
+
+    this.checkVersion(id, index, options);
+
+    const before = this.items[index] as Record<string, unknown>;
+    const item: Record<string, unknown> = { ...before, Version: (this.items[index].Version || 0) + 1 };
+
+    // null は属性の削除として扱い、UpdateOperation は現在の値に適用する
+    paths.forEach(path => this.applyUpdate(item, path, values[path]));
+
+    this.items[index] = item as T;
+
+    switch (options.returnValues) {
+      case 'ALL_OLD':
+        return before as UpdateResult<T, R>;
+      case 'UPDATED_OLD':
+        return this.pickPaths(before, ['Version', ...paths]) as UpdateResult<T, R>;
+      default:
+        return item as UpdateResult<T, R>;
+    }
+  }
+
+  public async delete(id: string, dataType: string, options: ConditionalWriteOptions = {}): Promise<void> {
+    const index = this.items.findIndex(item => item.ID === id && item.DataType === dataType);
+    this.checkVersion(id, index, options);
+
+    this.items = this.items.filter(item => !(item.ID === id && item.DataType === dataType));
+  }
+
+  public async batchDelete(ids: string[], dataType: string): Promise<void> {
+    this.items = this.items.filter(item => !(ids.includes(item.ID!) && item.DataType === dataType));
+  }
+
+  /**
+   * 失効済みのものを含め、保存されているすべてのレコードを返す。
+   */
+  public getStoredItems(): T[] {
+    return [...this.items];
+  }
+
+  /**
+   * レコードをそのまま保存する (同じ ID / DataType のレコードは置き換える)。
+   */
+  public putItem(item: T): void {
+    this.items = this.items.filter(i => !(i.ID === item.ID && i.DataType === item.DataType));
+    this.items.push(item);
+  }
+
+  public clearData(): void {
+    this.items = [];
+  }
+
+  // ドット区切りのパスは入れ子の属性として扱う。途中のオブジェクトは共有しないよう複製する
+  private applyUpdate(item: Record<string, unknown>, path: string, value: unknown): void {
+    const keys = path.split('.');
+    const name = keys.pop()!;
+    let target = item;
+
+    for (const key of keys) {
+      const child = target[key];
+
+      if (typeof child !== 'object' || child === null) {
+        throw new Error('The document path provided in the update expression is invalid for update');
+      }
+
+      target[key] = { ...child };
+      target = target[key] as Record<string, unknown>;
+    }
+
+    const next = value instanceof UpdateOperation ? value.apply(target[name]) : value;
+
+    if (next === null || next === undefined) {
+      delete target[name];
+    } else {
+      target[name] = next;
+    }
+  }
+
+  // UPDATED_OLD と同様に、指定したパスのうち値があったものだけを入れ子の形のまま取り出す
+  private pickPaths(item: Record<string, unknown>, paths: string[]): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    paths.forEach(path => {
+      const keys = path.split('.');
+      const value = keys.reduce<unknown>((current, key) =>
+        typeof current === 'object' && current !== null ? (current as Record<string, unknown>)[key] : undefined, item);
+
+      if (value === undefined) {
+        return;
+      }
+
+      const name = keys.pop()!;
+      const target = keys.reduce((current, key) => {
+        current[key] = current[key] || {};
+        return current[key] as Record<string, unknown>;
+      }, result);
+      target[name] = value;
+    });
+
+    return result;
+  }
+
+  private project(items: T[], projection?: ProjectionAttributes<T>): T[] {
+    if (!projection || projection.length === 0) {
+      return items;
+    }
+
+    return items.map(item => CommonUtil.pick(item, projection) as T);
+  }
+
+  private getAliveItems(): T[] {
+    return this.items.filter(item => !TtlUtil.isExpired(item));
+  }
+
+  private checkVersion(id: string, index: number, options: ConditionalWriteOptions): void {
+    if (options.expectedVersion === undefined) {
+      return;
+    }
+
+    if (index === -1 || (this.items[index].Version || 0) !== options.expectedVersion) {
+      throw new ConflictError(`Version conflict for item with id: ${id}`);
+    }
+  }
+}
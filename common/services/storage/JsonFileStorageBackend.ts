@@ -0,0 +1,327 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+
+import {
+  ConditionalWriteOptions,
+  CreateOptions,
+  Page,
+  PageOptions,
+  ProjectionAttributes,
+  ReturnValuesOptions,
+  StorageBackend,
+  UpdateOptions,
+  UpdateResult,
+  UpdateReturnValues
+} from '@common/interfaces/storage/StorageBackend';
+import { QueryCondition } from '@common/interfaces/query/QueryCondition';
+import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+import CommonUtil from '@common/utils/CommonUtil';
+import TtlUtil from '@common/utils/TtlUtil';
+import InMemoryStorageBackend from '@common/services/storage/InMemoryStorageBackend';
+import { RecordUpdates } from '@common/services/storage/UpdateOperation';
+
+export interface JsonFileStorageOptions {
+  /**
+   * ロックの取得を待つ最大時間 (ミリ秒)
+   */
+  lockTimeout?: number;
+  /**
+   * 作成からこの時間 (ミリ秒) を過ぎたロックは、異常終了したプロセスのものとみなして削除する
+   */
+  staleLockAge?: number;
+}
+
+const DEFAULT_LOCK_TIMEOUT = 5000;
+const DEFAULT_STALE_LOCK_AGE = 30000;
+const LOCK_RETRY_INTERVAL = 20;
+
+// JSON で表せない値を保存する際の型を示すキー
+const SET_KEY = '$set';
+const BINARY_KEY = '$binary';
+
+/**
+ * レコードを 1 つの JSON ファイルに保存する StorageBackend。AWS を使用しない CLI ツールやデモ向け。
+ * 検索条件・更新操作・Version・TTL の扱いは DynamoDBService と同じ (InMemoryStorageBackend で処理する)。
+ *
+ * - 書き込みは一時ファイルに書き出してからリネームするため、読み取り側が書きかけのファイルを読むことはない
+ * - 書き込みの間は `<filePath>.lock` を作成し、複数のプロセスからの書き込みを直列化する
+ * - Set・Binary は `{ "$set": [...] }`・`{ "$binary": "<Base64>" }` の形式で保存し、元の型で読み込む
+ *   (これらのキーのみを持つオブジェクトは保存できない)
+ *
+ * @example
+ * const accessor = new MyDataAccessor(new JsonFileStorageBackend<MyRecordType>('MyTable', './data/my-table.json'));
+ */
+export default class JsonFileStorageBackend<T extends RecordTypeBase> implements StorageBackend<T> {
+  private readonly tableName: string;
+  private readonly filePath: string;
+  private readonly lockPath: string;
+  private readonly lockTimeout: number;
+  private readonly staleLockAge: number;
+
+  constructor(tableName: string, filePath: string, options: JsonFileStorageOptions = {}) {
+    this.tableName = tableName;
+    this.filePath = filePath;
+    this.lockPath = `${filePath}.lock`;
+    this.lockTimeout = options.lockTimeout || DEFAULT_LOCK_TIMEOUT;
+    this.staleLockAge = options.staleLockAge || DEFAULT_STALE_LOCK_AGE;
+  }
+
+  public getTableName(): string {
+    return this.tableName;
+  }
+
+  public getFilePath(): string {
+    return this.filePath;
+  }
+
+  public async getAllByDataType(dataTypeValue: string, projection?: ProjectionAttributes<T>): Promise<T[]> {
+    return (await this.load()).getAllByDataType(dataTypeValue, projection);
+  }
+
+  public async *iterateByDataType(dataTypeValue: string, pageSize?: number): AsyncGenerator<T[]> {
+    yield* (await this.load()).iterateByDataType(dataTypeValue, pageSize);
+  }
+
+  public async find(dataTypeValue: string, condition: QueryCondition<T>, projection?: ProjectionAttributes<T>): Promise<T[]> {
+    return (await this.load()).find(dataTypeValue, condition, projection);
+  }
+
+  public async *iterateFind(
+    dataTypeValue: string,
+    condition: QueryCondition<T>,
+    pageSize?: number,
+    projection?: ProjectionAttributes<T>
+  ): AsyncGenerator<T[]> {
+    yield* (await this.load()).iterateFind(dataTypeValue, condition, pageSize, projection);
+  }
+
+  public async findPage(dataTypeValue: string, condition: QueryCondition<T>, options: PageOptions): Promise<Page<T>> {
+    return (await this.load()).findPage(dataTypeValue, condition, options);
+  }
+
+  public async findByDataTypePrefix(id: string, dataTypePrefix: string): Promise<T[]> {
+    return (await this.load()).findByDataTypePrefix(id, dataTypePrefix);
+  }
+
+  public async getById(id: string, dataType?: string, projection?: ProjectionAttributes<T>): Promise<T | null> {
+    return (await this.load()).getById(id, dataType, projection);
+  }
+
+  public async batchGetByIds(ids: string[], dataType: string): Promise<T[]> {
+    return (await this.load()).batchGetByIds(ids, dataType);
+  }
+
+  public async create(creates: Partial<T>, options: CreateOptions = {}): Promise<T> {
+    return this.write(memory => memory.create(creates, options));
+  }
+
+  public async batchCreate(creates: Partial<T>[], options: Pick<CreateOptions, 'ttl'> = {}): Promise<T[]> {
+    return this.write(memory => memory.batchCreate(creates, options));
+  }
+
+  public async update<R extends UpdateReturnValues = 'ALL_NEW'>(
+    id: string,
+    dataType: string,
+    updates: RecordUpdates<T>,
+    options: UpdateOptions & ReturnValuesOptions<R> = {}
+  ): Promise<UpdateResult<T, R> | null> {
+    return this.write(memory => memory.update(id, dataType, updates, options));
+  }
+
+  public async delete(id: string, dataType: string, options: ConditionalWriteOptions = {}): Promise<void> {
+    return this.write(memory => memory.delete(id, dataType, options));
+  }
+
+  public async batchDelete(ids: string[], dataType: string): Promise<void> {
+    return this.write(memory => memory.batchDelete(ids, dataType));
+  }
+
+  // ロックを取得して最新の内容を読み込み、変更を書き戻す。処理が失敗した場合は書き戻さない
+  private async write<R>(operation: (memory: InMemoryStorageBackend<T>) => Promise<R>): Promise<R> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    const token = await this.acquireLock();
+
+    try {
+      const memory = await this.load();
+      const result = await operation(memory);
+      await this.save(memory);
+      return result;
+    } finally {
+      await this.releaseLock(token);
+    }
+  }
+
+  private async load(): Promise<InMemoryStorageBackend<T>> {
+    const memory = new InMemoryStorageBackend<T>(this.tableName);
+    let content: string;
+
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return memory;
+      }
+      throw error;
+    }
+
+    const items = JSON.parse(content) as unknown[];
+    items.forEach(item => memory.putItem(JsonFileStorageBackend.decode(item) as T));
+
+    return memory;
+  }
+
+  // 同じディレクトリの一時ファイルに書き出してからリネームする (同一ファイルシステム内のリネームはアトミック)
+  private async save(memory: InMemoryStorageBackend<T>): Promise<void> {
+    // DynamoDB の TTL による削除の代わりに、失効済みのレコードは書き込み時に削除する
+    const items = memory.getStoredItems()
+      .filter(item => !TtlUtil.isExpired(item))
+      .map(item => JsonFileStorageBackend.encode(item));
+
+    const tempPath = `${this.filePath}.${process.pid}.${CommonUtil.generateUUID()}.tmp`;
+
+    try {
+      const handle = await fs.open(tempPath, 'w');
+
+      try {
+        await handle.writeFile(JSON.stringify(items, null, 2), 'utf8');
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+
+      await fs.rename(tempPath, this.filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  // ロックファイルを排他的に作成できたプロセスだけが書き込める。ロックには取得ごとに一意なトークンを書き込む
+  private async acquireLock(): Promise<string> {
+    const token = `${process.pid}.${CommonUtil.generateUUID()}`;
+    const deadline = Date.now() + this.lockTimeout;
+
+    while (true) {
+      try {
+        const handle = await fs.open(this.lockPath, 'wx');
+
+        try {
+          await handle.writeFile(token, 'utf8');
+        } finally {
+          await handle.close();
+        }
+        return token;
+      } catch (error: any) {
+        if (error?.code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      if (await this.removeStaleLock()) {
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for the lock: ${this.lockPath}`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_INTERVAL));
+    }
+  }
+
+  // 古いロックとみなされて他のプロセスに取得し直された場合は、そのロックを削除しない
+  private async releaseLock(token: string): Promise<void> {
+    try {
+      if (await fs.readFile(this.lockPath, 'utf8') !== token) {
+        return;
+      }
+      await fs.rm(this.lockPath, { force: true });
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  private async removeStaleLock(): Promise<boolean> {
+    const stalePath = `${this.lockPath}.${process.pid}.${CommonUtil.generateUUID()}.stale`;
+
+    try {
+      const stat = await fs.stat(this.lockPath);
+
+      if (Date.now() - stat.mtimeMs < this.staleLockAge) {
+        return false;
+      }
+
+      const token = await fs.readFile(this.lockPath, 'utf8');
+
+      // 確認の後に他のプロセスが古いロックを削除して取得し直した場合に備え、一意な名前にリネームしてから内容を確かめる
+      await fs.rename(this.lockPath, stalePath);
+
+      if (await fs.readFile(stalePath, 'utf8') !== token) {
+        // 取り違えた新しいロックは元に戻す。既に別のロックが作成されていれば戻せない
+        await fs.link(stalePath, this.lockPath).catch((error: any) => {
+          if (error?.code !== 'EEXIST') {
+            throw error;
+          }
+        });
+      }
+
+      await fs.rm(stalePath, { force: true });
+      return true;
+    } catch (error: any) {
+      // 確認の間に解放されたロックは、次の取得でやり直す
+      if (error?.code === 'ENOENT') {
+        return true;
+      }
+      throw error;
+    }
+  }
+
+  // Set・Binary は JSON で表せないため、型を示すキーを持つオブジェクトに変換する
+  private static encode(value: unknown): unknown {
+    if (value instanceof Set) {
+      return { [SET_KEY]: [...value].map(v => JsonFileStorageBackend.encode(v)) };
+    }
+    if (value instanceof Uint8Array) {
+      return { [BINARY_KEY]: Buffer.from(value).toString('base64') };
+    }
+    if (Array.isArray(value)) {
+      return value.map(v => JsonFileStorageBackend.encode(v));
+    }
+    if (value !== null && typeof value === 'object') {
+      return JsonFileStorageBackend.mapValues(value as Record<string, unknown>, v => JsonFileStorageBackend.encode(v));
+    }
+    return value;
+  }
+
+  private static decode(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map(v => JsonFileStorageBackend.decode(v));
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+
+    const entries = Object.entries(value);
+
+    if (entries.length === 1 && entries[0][0] === SET_KEY && Array.isArray(entries[0][1])) {
+      return new Set(entries[0][1].map(v => JsonFileStorageBackend.decode(v)));
+    }
+    if (entries.length === 1 && entries[0][0] === BINARY_KEY && typeof entries[0][1] === 'string') {
+      return new Uint8Array(Buffer.from(entries[0][1], 'base64'));
+    }
+
+    return JsonFileStorageBackend.mapValues(value as Record<string, unknown>, v => JsonFileStorageBackend.decode(v));
+  }
+
+  // undefined の属性は保存しない
+  private static mapValues(value: Record<string, unknown>, map: (v: unknown) => unknown): Record<string, unknown> {
+    return Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .reduce((result, key) => {
+        result[key] = map(value[key]);
+        return result;
+      }, {} as Record<string, unknown>);
+  }
+}
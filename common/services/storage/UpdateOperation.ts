@@ -0,0 +1,142 @@
+export type UpdateOperationType = 'add' | 'append' | 'deleteFromSet' | 'ifNotExists';
+
+/**
+ * 値の置き換え以外の更新操作
+ * update の値に指定すると、現在の値を読み込まずに保存先で更新する。
+ *
+ * @example
+ * await dataAccessor.update(id, {
+ *   UsageCount: UpdateOperation.add(1),
+ *   Tags: UpdateOperation.add(new Set(['new'])),
+ *   History: UpdateOperation.append([entry]),
+ *   Plan: UpdateOperation.ifNotExists('free'),
+ * });
+ */
+export default class UpdateOperation<V> {
+  // 更新時に呼び出し元から変更させない属性
+  private static readonly RESERVED_ATTRIBUTES = ['ID', 'DataType', 'Version'];
+
+  public readonly type: UpdateOperationType;
+  public readonly value: V;
+
+  private constructor(type: UpdateOperationType, value: V) {
+    this.type = type;
+    this.value = value;
+  }
+
+  /**
+   * 数値に加算する (負の値で減算)、または Set に要素を追加する。属性がない場合は 0 / 空の Set とみなす。
+   */
+  public static add<V extends number | Set<string> | Set<number>>(value: V): UpdateOperation<V> {
+    return new UpdateOperation('add', value);
+  }
+
+  /**
+   * リストの末尾に要素を追加する。属性がない場合は空のリストとみなす。
+   */
+  public static append<V extends unknown[]>(items: V): UpdateOperation<V> {
+    return new UpdateOperation('append', items);
+  }
+
+  /**
+   * Set から要素を取り除く。
+   */
+  public static deleteFromSet<V extends Set<string> | Set<number>>(value: V): UpdateOperation<V> {
+    return new UpdateOperation('deleteFromSet', value);
+  }
+
+  /**
+   * 属性がない場合のみ値を設定する。
+   */
+  public static ifNotExists<V>(value: V): UpdateOperation<V> {
+    return new UpdateOperation('ifNotExists', value);
+  }
+
+  /**
+   * update の値のうち、実際に変更する属性のパスを返す。StorageBackend の実装で共通に使用する。
+   * キー・Version と値が undefined の属性は変更しない。
+   * 親子関係にあるパス (Subscription と Subscription.keys など) は同時に更新できないため、エラーとする。
+   */
+  public static getUpdatePaths(updates: Record<string, unknown>): string[] {
+    const paths = Object.keys(updates)
+      .filter(path => !UpdateOperation.RESERVED_ATTRIBUTES.includes(path.split('.')[0]) && updates[path] !== undefined);
+
+    const overlapped = paths.find(path => paths.some(other => other !== path && path.startsWith(`${other}.`)));
+
+    if (overlapped) {
+      throw new Error(`Update paths overlap: ${overlapped}`);
+    }
+
+    return paths;
+  }
+
+  /**
+   * 現在の値に操作を適用した結果を返す。DynamoDB を使用しない実装で同じ結果を得るために使用する。
+   * @returns 適用後の値 (属性を削除する場合は undefined)
+   */
+  public apply(current: unknown): unknown {
+    switch (this.type) {
+      case 'add':
+        if (this.value instanceof Set) {
+          return new Set([...(current instanceof Set ? current : []), ...this.value]);
+        }
+        return (typeof current === 'number' ? current : 0) + (this.value as unknown as number);
+      case 'append':
+        return [...(Array.isArray(current) ? current : []), ...(this.value as unknown as unknown[])];
+      case 'deleteFromSet': {
+        if (!(current instanceof Set)) {
+          return current;
+        }
+        const removes = this.value as unknown as Set<unknown>;
+        const remaining = new Set([...current].filter(v => !removes.has(v)));
+        // DynamoDB は空の Set を保持できないため、属性ごと削除される
+        return remaining.size > 0 ? remaining : undefined;
+      }
+      case 'ifNotExists':
+        return current === undefined || current === null ? this.value : current;
+    }
+  }
+}
+
+type UpdateValue<V> = V | null | UpdateOperation<V> | UpdateOperation<NonNullable<V>>;
+
+// 再帰の深さの上限 (Depth[3] = 2 のように 1 つずつ減らす)
+type Depth = [never, 0, 1, 2, 3];
+
+// 入れ子にできる (ドット区切りのパスで更新できる) 値。配列・Set の内部は対象外
+type NestedObject<V> = V extends unknown[] | Set<unknown> | Uint8Array ? never : V extends object ? V : never;
+
+/**
+ * 入れ子の属性へのドット区切りのパス (例: Subscription.keys.auth)
+ */
+export type NestedAttributePath<T, D extends number = 3> = [D] extends [never]
+  ? never
+  : {
+    [K in keyof T & string]: NestedObject<NonNullable<T[K]>> extends never
+      ? never
+      : `${K}.${keyof NestedObject<NonNullable<T[K]>> & string}` | `${K}.${NestedAttributePath<NestedObject<NonNullable<T[K]>>, Depth[D]>}`;
+  }[keyof T & string];
+
+/**
+ * ドット区切りのパスが指す属性の型
+ */
+export type NestedAttributeValue<T, P extends string> = P extends `${infer K}.${infer Rest}`
+  ? K extends keyof T ? NestedAttributeValue<NonNullable<T[K]>, Rest> : never
+  : P extends keyof T ? T[P] : never;
+
+/**
+ * 最上位の属性のみを指定する update の値
+ * 値をそのまま指定した場合は置き換え (SET)、null は属性の削除 (REMOVE) となる。
+ */
+export type AttributeUpdates<T> = {
+  [K in keyof T]?: UpdateValue<T[K]>;
+};
+
+/**
+ * update に指定できる値
+ * 値をそのまま指定した場合は置き換え (SET)、null は属性の削除 (REMOVE) となる。
+ * 入れ子の属性はドット区切りのパスで指定でき、同じオブジェクトの他の属性は変更しない。
+ */
+export type RecordUpdates<T> = AttributeUpdates<T> & {
+  [P in NestedAttributePath<T>]?: UpdateValue<NestedAttributeValue<T, P>>;
+};
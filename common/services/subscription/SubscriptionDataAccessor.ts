@@ -1,15 +1,49 @@
 import DataAccessorBase from '@common/services/DataAccessorBase';
-import DynamoDBService from '@common/services/aws/DynamoDBService';
+import DynamoDBService, { DynamoDBServiceOptions } from '@common/services/aws/DynamoDBService';
 import { SubscriptionRecordType } from '@common/interfaces/record/SubscriptionRecordType';
+import { RecordSchema } from '@common/interfaces/validation/RecordSchema';
+import { StorageBackend } from '@common/interfaces/storage/StorageBackend';
+
+export const SUBSCRIPTION_RECORD_SCHEMA: RecordSchema<SubscriptionRecordType> = {
+  TerminalID: { type: 'string', required: true, minLength: 1 },
+  Subscription: {
+    type: 'object',
+    required: true,
+    properties: {
+      endpoint: { type: 'string', required: true, pattern: /^https:\/\// },
+      keys: {
+        type: 'object',
+        required: true,
+        properties: {
+          p256dh: { type: 'string', required: true, minLength: 1 },
+          auth: { type: 'string', required: true, minLength: 1 },
+        },
+      },
+    },
+  },
+};
 
 export class SubscriptionDataAccessor extends DataAccessorBase<SubscriptionRecordType> {
-  constructor(dynamoDBService?: DynamoDBService<SubscriptionRecordType>) {
+  /**
+   * @param backend 保存先 (省略時は Subscription テーブルの DynamoDBService)
+   * @param options backend を省略した場合の DynamoDBService の設定。dataTypeIndexName は GSI (ソートキー Create) のあるテーブルでのみ指定する
+   */
+  constructor(
+    backend?: StorageBackend<SubscriptionRecordType>,
+    options: Pick<DynamoDBServiceOptions, 'dataTypeIndexName'> = {}
+  ) {
     const tableName = 'Subscription';
 
-    if (!dynamoDBService) {
-      dynamoDBService = new DynamoDBService<SubscriptionRecordType>(tableName);
+    if (!backend) {
+      backend = new DynamoDBService<SubscriptionRecordType>(tableName, {
+        dataTypeIndexName: options.dataTypeIndexName
+      });
     }
 
-    super(tableName, 'Subscription', dynamoDBService);
+    super(tableName, 'Subscription', backend, {
+      // 更新されないまま 30 日経過した購読は失効させる
+      ttl: { expiresAfter: 30 * 24 * 60 * 60, basis: 'Update' },
+      schema: SUBSCRIPTION_RECORD_SCHEMA
+    });
   }
 }
@@ -1,8 +1,10 @@
 import CRUDServiceBase from '@common/services/CRUDServiceBase';
+import { ConditionalWriteOptions } from '@common/interfaces/storage/StorageBackend';
 import { NotFoundError } from '@common/errors';
 import { SubscriptionDataAccessor } from '@common/services/subscription/SubscriptionDataAccessor';
 import { SubscriptionDataType } from '@common/interfaces/data/SubscriptionDataType';
 import { SubscriptionRecordType } from '@common/interfaces/record/SubscriptionRecordType';
+import { SubscriptionType } from '@common/interfaces/SubscriptionType';
 
 export class SubscriptionService extends CRUDServiceBase<SubscriptionDataType, SubscriptionRecordType> {
   constructor(dataAccessor?: SubscriptionDataAccessor) {
@@ -14,8 +16,7 @@ export class SubscriptionService extends CRUDServiceBase<SubscriptionDataType, S
   }
 
   public async getByTerminalId(terminalId: string): Promise<SubscriptionDataType> {
-    const records = await this.dataAccessor.get();
-    const record = records.find((rec) => rec.TerminalID === terminalId);
+    const [record] = await this.dataAccessor.find({ TerminalID: terminalId });
 
     if (!record) {
       throw new NotFoundError(`Subscription record not found for TerminalID: ${terminalId}`);
@@ -24,6 +25,20 @@ export class SubscriptionService extends CRUDServiceBase<SubscriptionDataType, S
     return this.recordToData(record);
   }
 
+  /**
+   * 購読の鍵を更新する。endpoint など Subscription の他の属性は変更しない。
+   */
+  public async rotateKeys(
+    id: string,
+    keys: SubscriptionType['keys'],
+    options?: ConditionalWriteOptions
+  ): Promise<SubscriptionDataType> {
+    return await this.updateRecord(id, {
+      'Subscription.keys.p256dh': keys.p256dh,
+      'Subscription.keys.auth': keys.auth,
+    }, options);
+  }
+
   protected dataToRecord(data: Partial<SubscriptionDataType>): Partial<SubscriptionRecordType> {
     return {
       TerminalID: data.terminalId,
@@ -38,6 +53,7 @@ export class SubscriptionService extends CRUDServiceBase<SubscriptionDataType, S
       subscription: record.Subscription,
       create: record.Create || 0,
       update: record.Update || 0,
+      version: record.Version || 0,
     };
   }
 }
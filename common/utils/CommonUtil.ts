@@ -4,4 +4,26 @@ export default class CommonUtil {
   public static generateUUID(): string {
     return randomUUID();
   }
+
+  public static chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+
+    for (let i = 0; i < items.length; i += size) {
+      chunks.push(items.slice(i, i + size));
+    }
+
+    return chunks;
+  }
+
+  /**
+   * 指定したキーの値のみを持つオブジェクトを返す (値が undefined のキーは含めない)。
+   */
+  public static pick<T, K extends keyof T>(item: T, keys: K[]): Pick<T, K> {
+    return keys.reduce((result, key) => {
+      if (item[key] !== undefined) {
+        result[key] = item[key];
+      }
+      return result;
+    }, {} as Pick<T, K>);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+import { BadRequestError } from '@common/errors';
+
+/**
+ * ページングのカーソルを生成・検証する。
+ * カーソルは内容を JSON にして署名 (HMAC-SHA256) したもので、改ざんされたカーソルは受け付けない。
+ * 署名の鍵は環境変数 PROJECT_CURSOR_SECRET で指定する。
+ */
+export default class CursorUtil {
+  public static encode(payload: unknown): string {
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${body}.${this.sign(body)}`;
+  }
+
+  /**
+   * カーソルを検証して内容を返す。形式が不正・署名が一致しない場合は BadRequestError をスローする。
+   */
+  public static decode<T>(cursor: string): T {
+    const [body, signature, ...rest] = cursor.split('.');
+
+    if (!body || !signature || rest.length > 0) {
+      throw new BadRequestError('Invalid cursor');
+    }
+
+    const expected = Buffer.from(this.sign(body));
+    const actual = Buffer.from(signature);
+
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new BadRequestError('Invalid cursor');
+    }
+
+    try {
+      return JSON.parse(Buffer.from(body, 'base64url').toString()) as T;
+    } catch (error) {
+      throw new BadRequestError('Invalid cursor');
+    }
+  }
+
+  private static sign(body: string): string {
+    const secret = process.env.PROJECT_CURSOR_SECRET;
+
+    if (!secret) {
+      throw new Error('PROJECT_CURSOR_SECRET is not set');
+    }
+
+    return createHmac('sha256', secret).update(body).digest('base64url');
+  }
+}
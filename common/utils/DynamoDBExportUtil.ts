@@ -0,0 +1,226 @@
+import { createReadStream, promises as fs } from 'fs';
+import { createInterface } from 'readline';
+import { AttributeValue } from '@aws-sdk/client-dynamodb';
+
+import DynamoDBService from '@common/services/aws/DynamoDBService';
+
+export interface ExportTableOptions {
+  /**
+   * 指定した場合はその DataType のアイテムのみを出力する。
+   */
+  dataType?: string;
+  pageSize?: number;
+}
+
+export interface ImportTableOptions {
+  /**
+   * 1 回の BatchWriteItem で書き込む件数 (最大 25)
+   */
+  batchSize?: number;
+  /**
+   * 書き込み済みの行番号を保存するファイル。省略時は `<filePath>.checkpoint`。
+   * 中断後に同じファイルを再度インポートすると、続きの行から再開する。
+   */
+  checkpointPath?: string;
+  onProgress?: (imported: number) => void;
+}
+
+export interface ImportTableResult {
+  imported: number;
+  resumedFromLine: number; // 再開した場合、読み飛ばした行数
+}
+
+interface Checkpoint {
+  line: number;
+}
+
+// JSON で表現できない Binary は base64 文字列とする (DynamoDB JSON と同じ形式)
+type JsonAttributeValue = Record<string, unknown>;
+
+const MAX_BATCH_SIZE = 25;
+
+/**
+ * テーブルのアイテムを JSON Lines (1 行 1 アイテム、DynamoDB JSON 形式) でエクスポート・インポートする。
+ * 数値は文字列のまま保持するため、Set・Binary・桁数の多い数値も元の型で復元できる。
+ */
+export default class DynamoDBExportUtil {
+  /**
+   * テーブルのアイテムをファイルに出力する。
+   * @returns 出力したアイテム数
+   */
+  public static async exportTable(
+    service: DynamoDBService<any>,
+    filePath: string,
+    options: ExportTableOptions = {}
+  ): Promise<number> {
+    // 書き込めないファイルはスキャンの前にエラーとする
+    const handle = await fs.open(filePath, 'w');
+    let count = 0;
+
+    try {
+      for await (const page of service.iterateRawItems(options.dataType, options.pageSize)) {
+        if (page.length === 0) {
+          continue;
+        }
+
+        await handle.write(page.map(item => `${JSON.stringify(this.toJsonItem(item))}\n`).join(''), null, 'utf8');
+        count += page.length;
+      }
+    } finally {
+      await handle.close();
+    }
+
+    return count;
+  }
+
+  /**
+   * ファイルのアイテムをテーブルに書き込む。同じキーのアイテムは上書きする (ファイル内で重複する場合は後の行を優先する)。
+   * 書き込みに失敗した場合はチェックポイントを残し、再実行時は続きから書き込む。
+   */
+  public static async importTable(
+    service: DynamoDBService<any>,
+    filePath: string,
+    options: ImportTableOptions = {}
+  ): Promise<ImportTableResult> {
+    const batchSize = Math.min(options.batchSize || MAX_BATCH_SIZE, MAX_BATCH_SIZE);
+    const checkpointPath = options.checkpointPath || `${filePath}.checkpoint`;
+    const resumedFromLine = (await this.readCheckpoint(checkpointPath))?.line || 0;
+
+    const lines = createInterface({ input: createReadStream(filePath, { encoding: 'utf8' }), crlfDelay: Infinity });
+    let lineNumber = 0;
+    let imported = 0;
+    let batch: Record<string, AttributeValue>[] = [];
+
+    const flush = async (): Promise<void> => {
+      if (batch.length === 0) {
+        return;
+      }
+
+      const items = this.dedupeByKey(batch);
+
+      await service.batchPutRawItems(items);
+      imported += items.length;
+      batch = [];
+
+      await fs.writeFile(checkpointPath, JSON.stringify({ line: lineNumber } as Checkpoint));
+
+      if (options.onProgress) {
+        options.onProgress(imported);
+      }
+    };
+
+    for await (const line of lines) {
+      lineNumber++;
+
+      if (lineNumber <= resumedFromLine || line.trim() === '') {
+        continue;
+      }
+
+      batch.push(this.parseLine(line, lineNumber));
+
+      if (batch.length >= batchSize) {
+        await flush();
+      }
+    }
+
+    await flush();
+    await fs.rm(checkpointPath, { force: true });
+
+    return { imported, resumedFromLine };
+  }
+
+  /**
+   * アイテムを DynamoDB JSON 形式 (Binary は base64 文字列) に変換する。
+   */
+  public static toJsonItem(item: Record<string, AttributeValue>): Record<string, unknown> {
+    return this.toJson({ M: item }).M as Record<string, unknown>;
+  }
+
+  /**
+   * DynamoDB JSON 形式のアイテムを AttributeValue に戻す。
+   */
+  public static fromJsonItem(json: Record<string, unknown>): Record<string, AttributeValue> {
+    return this.fromJson({ M: json }).M as Record<string, AttributeValue>;
+  }
+
+  // BatchWriteItem は同じキーのアイテムを含むリクエストを拒否するため、後の行のアイテムのみを残す
+  private static dedupeByKey(items: Record<string, AttributeValue>[]): Record<string, AttributeValue>[] {
+    const itemsByKey = new Map<string, Record<string, AttributeValue>>();
+
+    items.forEach(item => {
+      const key = JSON.stringify([item.ID, item.DataType]);
+      itemsByKey.delete(key);
+      itemsByKey.set(key, item);
+    });
+
+    return Array.from(itemsByKey.values());
+  }
+
+  private static parseLine(line: string, lineNumber: number): Record<string, AttributeValue> {
+    try {
+      return this.fromJsonItem(JSON.parse(line));
+    } catch (error) {
+      throw new Error(`Invalid item at line ${lineNumber}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private static async readCheckpoint(checkpointPath: string): Promise<Checkpoint | null> {
+    try {
+      return JSON.parse(await fs.readFile(checkpointPath, 'utf8')) as Checkpoint;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private static toJson(value: AttributeValue): JsonAttributeValue {
+    if (value.B !== undefined) {
+      return { B: Buffer.from(value.B).toString('base64') };
+    }
+    if (value.BS !== undefined) {
+      return { BS: value.BS.map(b => Buffer.from(b).toString('base64')) };
+    }
+    if (value.M !== undefined) {
+      const map = value.M;
+      return { M: this.mapValues(map, v => this.toJson(v)) };
+    }
+    if (value.L !== undefined) {
+      return { L: value.L.map(v => this.toJson(v)) };
+    }
+    return value as unknown as JsonAttributeValue;
+  }
+
+  private static fromJson(value: JsonAttributeValue): AttributeValue {
+    if (typeof value !== 'object' || value === null || Object.keys(value).length !== 1) {
+      throw new Error('Each attribute must be a DynamoDB JSON value with a single type key');
+    }
+
+    if (typeof value.B === 'string') {
+      return { B: this.fromBase64(value.B) };
+    }
+    if (Array.isArray(value.BS)) {
+      return { BS: value.BS.map(b => this.fromBase64(b)) };
+    }
+    if (value.M !== undefined) {
+      const map = value.M as Record<string, JsonAttributeValue>;
+      return { M: this.mapValues(map, v => this.fromJson(v)) };
+    }
+    if (Array.isArray(value.L)) {
+      return { L: value.L.map(v => this.fromJson(v)) };
+    }
+    return value as unknown as AttributeValue;
+  }
+
+  private static mapValues<V, R>(map: Record<string, V>, mapper: (value: V) => R): Record<string, R> {
+    return Object.keys(map).reduce((result, key) => {
+      result[key] = mapper(map[key]);
+      return result;
+    }, {} as Record<string, R>);
+  }
+
+  private static fromBase64(value: string): Uint8Array {
+    return new Uint8Array(Buffer.from(value, 'base64'));
+  }
+}
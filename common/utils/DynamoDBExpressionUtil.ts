@@ -0,0 +1,115 @@
+import { AttributeValue } from '@aws-sdk/client-dynamodb';
+import { marshall } from '@aws-sdk/util-dynamodb';
+
+import QueryConditionUtil from '@common/utils/QueryConditionUtil';
+import { QueryCondition, QueryOperatorName } from '@common/interfaces/query/QueryCondition';
+
+/**
+ * 式で使用する属性名・値のプレースホルダーを採番して保持する。
+ * 属性名をそのまま式に埋め込まないため、予約語や記号を含む属性名も安全に扱える。
+ */
+export class ExpressionAttributes {
+  private readonly names: Record<string, string> = {};
+  private readonly values: Record<string, AttributeValue> = {};
+  private nameCount = 0;
+  private valueCount = 0;
+
+  public name(attributeName: string): string {
+    const existing = Object.keys(this.names).find(key => this.names[key] === attributeName);
+
+    if (existing) {
+      return existing;
+    }
+
+    const placeholder = `#n${this.nameCount++}`;
+    this.names[placeholder] = attributeName;
+    return placeholder;
+  }
+
+  /**
+   * ドット区切りのパス (例: Subscription.keys.auth) を `#a.#b.#c` の形式に変換する。
+   */
+  public path(attributePath: string): string {
+    return attributePath.split('.').map(name => this.name(name)).join('.');
+  }
+
+  public value(value: unknown): string {
+    const placeholder = `:v${this.valueCount++}`;
+    this.values[placeholder] = marshall({ value }, { removeUndefinedValues: true }).value;
+    return placeholder;
+  }
+
+  public getNames(): Record<string, string> | undefined {
+    return Object.keys(this.names).length > 0 ? this.names : undefined;
+  }
+
+  public getValues(): Record<string, AttributeValue> | undefined {
+    return Object.keys(this.values).length > 0 ? this.values : undefined;
+  }
+}
+
+export default class DynamoDBExpressionUtil {
+  /**
+   * 検索条件を FilterExpression / KeyConditionExpression の形式に変換する。
+   * @param condition 検索条件
+   * @param attributes プレースホルダーの採番先
+   * @returns 条件式 (条件がない場合は undefined)
+   */
+  public static buildConditionExpression<T>(
+    condition: QueryCondition<T>,
+    attributes: ExpressionAttributes
+  ): string | undefined {
+    const expressions: string[] = [];
+
+    Object.entries(condition).forEach(([attributeName, conditionValue]) => {
+      if (conditionValue === undefined) {
+        return;
+      }
+
+      const name = attributes.name(attributeName);
+
+      Object.entries(QueryConditionUtil.toOperators(conditionValue)).forEach(([operator, operand]) => {
+        expressions.push(this.buildOperatorExpression(name, operator as QueryOperatorName, operand, attributes));
+      });
+    });
+
+    return expressions.length > 0 ? expressions.join(' AND ') : undefined;
+  }
+
+  private static buildOperatorExpression(
+    name: string,
+    operator: QueryOperatorName,
+    operand: any,
+    attributes: ExpressionAttributes
+  ): string {
+    switch (operator) {
+      case 'eq':
+        return `${name} = ${attributes.value(operand)}`;
+      case 'ne':
+        return `${name} <> ${attributes.value(operand)}`;
+      case 'lt':
+        return `${name} < ${attributes.value(operand)}`;
+      case 'lte':
+        return `${name} <= ${attributes.value(operand)}`;
+      case 'gt':
+        return `${name} > ${attributes.value(operand)}`;
+      case 'gte':
+        return `${name} >= ${attributes.value(operand)}`;
+      case 'begins_with':
+        return `begins_with(${name}, ${attributes.value(operand)})`;
+      case 'between':
+        return `${name} BETWEEN ${attributes.value(operand[0])} AND ${attributes.value(operand[1])}`;
+      case 'contains':
+        return `contains(${name}, ${attributes.value(operand)})`;
+      case 'in':
+        if (!Array.isArray(operand) || operand.length === 0) {
+          throw new Error('The "in" operator requires at least one value');
+        }
+        return `${name} IN (${operand.map(v => attributes.value(v)).join(', ')})`;
+      case 'exists':
+        return operand ? `attribute_exists(${name})` : `attribute_not_exists(${name})`;
+      default:
+        throw new Error(`Unsupported query operator: ${operator}`);
+    }
+  }
+}
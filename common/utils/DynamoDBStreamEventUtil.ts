@@ -0,0 +1,69 @@
+import { marshall } from '@aws-sdk/util-dynamodb';
+
+import DynamoDBExportUtil from '@common/utils/DynamoDBExportUtil';
+import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+import { DynamoDBStreamEvent, DynamoDBStreamRecord, StreamEventName } from '@common/interfaces/stream/DynamoDBStreamEvent';
+
+export interface StreamImages<T extends RecordTypeBase> {
+  newImage?: T;
+  oldImage?: T;
+}
+
+type StreamImage = Record<string, Record<string, unknown>>;
+
+/**
+ * テスト用に、Lambda が受け取る形式 (DynamoDB JSON) の DynamoDB Streams のイベントを作成する。
+ *
+ * @example
+ * await dispatcher.dispatch(DynamoDBStreamEventUtil.createEvent(
+ *   DynamoDBStreamEventUtil.createRecord('INSERT', { newImage: subscription }),
+ *   DynamoDBStreamEventUtil.createRecord('REMOVE', { oldImage: subscription }, { userIdentity: DynamoDBStreamEventUtil.TTL_IDENTITY }),
+ * ));
+ */
+export default class DynamoDBStreamEventUtil {
+  /**
+   * TTL による削除のレコードの userIdentity
+   */
+  public static readonly TTL_IDENTITY = { type: 'Service', principalId: 'dynamodb.amazonaws.com' };
+
+  private static sequence = 0;
+
+  public static createEvent(...records: DynamoDBStreamRecord[]): DynamoDBStreamEvent {
+    return { Records: records };
+  }
+
+  /**
+   * レコードを作成する。キーは newImage (なければ oldImage) の ID / DataType とし、eventID・SequenceNumber は連番を振る。
+   * @param extra 作成したレコードに上書きする項目
+   */
+  public static createRecord<T extends RecordTypeBase>(
+    eventName: StreamEventName,
+    images: StreamImages<T>,
+    extra: Partial<DynamoDBStreamRecord> = {}
+  ): DynamoDBStreamRecord {
+    const image = images.newImage || images.oldImage;
+
+    if (!image) {
+      throw new Error('Either newImage or oldImage is required');
+    }
+
+    const sequence = ++this.sequence;
+
+    return {
+      eventID: `event-${sequence}`,
+      eventName,
+      eventSource: 'aws:dynamodb',
+      dynamodb: {
+        Keys: this.toImage({ ID: image.ID, DataType: image.DataType }),
+        ...(images.newImage && { NewImage: this.toImage(images.newImage) }),
+        ...(images.oldImage && { OldImage: this.toImage(images.oldImage) }),
+        SequenceNumber: String(sequence),
+      },
+      ...extra,
+    };
+  }
+
+  private static toImage(item: RecordTypeBase): StreamImage {
+    return DynamoDBExportUtil.toJsonItem(marshall(item, { removeUndefinedValues: true })) as StreamImage;
+  }
+}
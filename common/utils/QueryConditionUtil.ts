@@ -0,0 +1,94 @@
+import { QueryCondition, QueryOperatorName, QueryOperators } from '@common/interfaces/query/QueryCondition';
+
+const QUERY_OPERATOR_NAMES: QueryOperatorName[] = [
+  'eq', 'ne', 'lt', 'lte', 'gt', 'gte', 'begins_with', 'between', 'contains', 'in', 'exists'
+];
+
+export default class QueryConditionUtil {
+  /**
+   * 検索条件にアイテムが一致するかをメモリ上で判定する。
+   * DynamoDB を使用しない実装で、DynamoDB と同じ条件の解釈を行うために使用する。
+   * @param item 判定対象のアイテム
+   * @param condition 検索条件
+   */
+  public static matches<T>(item: T, condition: QueryCondition<T>): boolean {
+    return Object.entries(condition).every(([attributeName, conditionValue]) => {
+      if (conditionValue === undefined) {
+        return true;
+      }
+
+      const value = (item as Record<string, unknown>)[attributeName];
+
+      return Object.entries(this.toOperators(conditionValue)).every(([operator, operand]) =>
+        this.matchesOperator(value, operator as QueryOperatorName, operand)
+      );
+    });
+  }
+
+  /**
+   * 条件値が演算子指定か、値の直接指定 (eq) かを判定する。
+   */
+  public static isOperators(conditionValue: unknown): conditionValue is QueryOperators<unknown> {
+    if (conditionValue === null || typeof conditionValue !== 'object' || Array.isArray(conditionValue) || conditionValue instanceof Set) {
+      return false;
+    }
+
+    const keys = Object.keys(conditionValue);
+    return keys.length > 0 && keys.every(key => QUERY_OPERATOR_NAMES.includes(key as QueryOperatorName));
+  }
+
+  /**
+   * 条件値を演算子指定の形式に揃える (値の直接指定は eq とする)。
+   */
+  public static toOperators(conditionValue: unknown): QueryOperators<unknown> {
+    return this.isOperators(conditionValue) ? conditionValue : { eq: conditionValue };
+  }
+
+  private static matchesOperator(value: any, operator: QueryOperatorName, operand: any): boolean {
+    const exists = value !== undefined && value !== null;
+
+    switch (operator) {
+      case 'eq':
+        return exists && this.isEqual(value, operand);
+      case 'ne':
+        return !exists || !this.isEqual(value, operand);
+      case 'lt':
+        return exists && value < operand;
+      case 'lte':
+        return exists && value <= operand;
+      case 'gt':
+        return exists && value > operand;
+      case 'gte':
+        return exists && value >= operand;
+      case 'begins_with':
+        return typeof value === 'string' && value.startsWith(operand);
+      case 'between':
+        return exists && value >= operand[0] && value <= operand[1];
+      case 'contains':
+        if (typeof value === 'string') {
+          return value.includes(operand);
+        }
+        if (Array.isArray(value)) {
+          return value.some(v => this.isEqual(v, operand));
+        }
+        if (value instanceof Set) {
+          return value.has(operand);
+        }
+        return false;
+      case 'in':
+        return exists && (operand as unknown[]).some(v => this.isEqual(value, v));
+      case 'exists':
+        return operand ? exists : !exists;
+      default:
+        throw new Error(`Unsupported query operator: ${operator}`);
+    }
+  }
+
+  private static isEqual(a: unknown, b: unknown): boolean {
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+      return a === b;
+    }
+
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+}
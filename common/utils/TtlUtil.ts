@@ -0,0 +1,19 @@
+import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+import { TtlPolicy } from '@common/interfaces/storage/StorageBackend';
+
+export default class TtlUtil {
+  /**
+   * TTL ポリシーに従った失効日時 (エポック秒) を返す。
+   */
+  public static calculateExpiresAt(ttl: TtlPolicy, baseTime: number = Date.now()): number {
+    return Math.floor(baseTime / 1000) + ttl.expiresAfter;
+  }
+
+  /**
+   * 失効日時を過ぎているかを返す。
+   * DynamoDB の TTL による削除は即時ではないため、読み取り時にこの判定で除外する。
+   */
+  public static isExpired(item: RecordTypeBase, now: number = Date.now()): boolean {
+    return typeof item.ExpiresAt === 'number' && item.ExpiresAt <= Math.floor(now / 1000);
+  }
+}
@@ -0,0 +1,111 @@
+import { FieldRule, FieldViolation, RecordSchema } from '@common/interfaces/validation/RecordSchema';
+
+export default class ValidationUtil {
+  /**
+   * スキーマに従ってレコードを検証し、すべての違反を返す。
+   * @param record 検証対象のレコード
+   * @param schema 検証スキーマ
+   * @param partial true の場合 (更新時) は、record に値が含まれる属性のみを検証する。
+   *                undefined の属性は変更しないため検証せず、required は null (削除) の場合のみ違反とする
+   * @returns 違反の一覧 (違反がない場合は空配列)
+   */
+  public static validate<T>(record: Partial<T>, schema: RecordSchema<T>, partial = false): FieldViolation[] {
+    const violations: FieldViolation[] = [];
+    const values = record as Record<string, unknown>;
+
+    Object.entries(schema as Record<string, FieldRule | undefined>).forEach(([name, rule]) => {
+      if (!rule || (partial && values[name] === undefined)) {
+        return;
+      }
+
+      this.validateField(name, values[name], rule, violations);
+    });
+
+    // 更新時に入れ子の属性をパスで指定した場合は、その属性のルールで検証する
+    if (partial) {
+      Object.keys(values).filter(path => path.includes('.') && values[path] !== undefined).forEach(path => {
+        const rule = this.findRule(schema, path);
+
+        if (rule) {
+          this.validateField(path, values[path], rule, violations);
+        }
+      });
+    }
+
+    return violations;
+  }
+
+  private static findRule<T>(schema: RecordSchema<T>, path: string): FieldRule | undefined {
+    const [name, ...rest] = path.split('.');
+
+    return rest.reduce<FieldRule | undefined>(
+      (rule, property) => rule?.properties?.[property],
+      (schema as Record<string, FieldRule | undefined>)[name]
+    );
+  }
+
+  private static validateField(path: string, value: unknown, rule: FieldRule, violations: FieldViolation[]): void {
+    if (value === undefined || value === null) {
+      if (rule.required) {
+        violations.push({ path, message: 'is required' });
+      }
+      return;
+    }
+
+    if (!this.isType(value, rule)) {
+      violations.push({ path, message: `must be ${rule.type}` });
+      return;
+    }
+
+    this.validateConstraints(path, value, rule, violations);
+
+    if (rule.properties) {
+      Object.entries(rule.properties).forEach(([name, propertyRule]) => {
+        this.validateField(`${path}.${name}`, (value as Record<string, unknown>)[name], propertyRule, violations);
+      });
+    }
+
+    if (rule.items) {
+      (value as unknown[]).forEach((item, index) => {
+        this.validateField(`${path}[${index}]`, item, rule.items!, violations);
+      });
+    }
+  }
+
+  private static isType(value: unknown, rule: FieldRule): boolean {
+    switch (rule.type) {
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return typeof value === 'object' && !Array.isArray(value);
+      case 'number':
+        return typeof value === 'number' && !Number.isNaN(value);
+      default:
+        return typeof value === rule.type;
+    }
+  }
+
+  private static validateConstraints(path: string, value: unknown, rule: FieldRule, violations: FieldViolation[]): void {
+    if (typeof value === 'string' || Array.isArray(value)) {
+      if (rule.minLength !== undefined && value.length < rule.minLength) {
+        violations.push({ path, message: `must have length >= ${rule.minLength}` });
+      }
+      if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+        violations.push({ path, message: `must have length <= ${rule.maxLength}` });
+      }
+    }
+
+    if (typeof value === 'number') {
+      if (rule.min !== undefined && value < rule.min) {
+        violations.push({ path, message: `must be >= ${rule.min}` });
+      }
+      if (rule.max !== undefined && value > rule.max) {
+        violations.push({ path, message: `must be <= ${rule.max}` });
+      }
+    }
+
+    if (typeof value === 'string' && rule.pattern && !rule.pattern.test(value)) {
+      violations.push({ path, message: `must match ${rule.pattern}` });
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { CloudWatchLogsClient } from '@aws-sdk/client-cloudwatch-logs';
+
+import AWSClientFactory from '@common/aws/AWSClientFactory';
+import DynamoDBService from '@common/services/aws/DynamoDBService';
+import SecretsManagerUtil from '@common/aws/SecretsManagerUtil';
+
+describe('AWSClientFactory', () => {
+  const secrets: Record<string, string> = {
+    AWS_REGION: 'ap-northeast-1',
+    AWS_ACCESS_KEY: 'access-key',
+    AWS_SECRET_ACCESS_KEY: 'secret-key',
+  };
+  let getSecretValue: jest.SpyInstance;
+
+  beforeEach(() => {
+    AWSClientFactory.reset();
+    getSecretValue = jest.spyOn(SecretsManagerUtil, 'getSecretValue')
+      .mockImplementation(async (_secretName: string, keyName: string) => secrets[keyName]);
+  });
+
+  afterEach(() => {
+    getSecretValue.mockRestore();
+    AWSClientFactory.reset();
+  });
+
+  it('Reuses Client', async () => {
+    const client1 = await AWSClientFactory.getClient(DynamoDBClient);
+    const client2 = await AWSClientFactory.getClient(DynamoDBClient);
+    const logsClient = await AWSClientFactory.getClient(CloudWatchLogsClient);
+
+    expect(client1).toBeInstanceOf(DynamoDBClient);
+    expect(client2).toBe(client1);
+    expect(logsClient).toBeInstanceOf(CloudWatchLogsClient);
+  });
+
+  it('Creates Client Per Region', async () => {
+    const client1 = await AWSClientFactory.getClient(DynamoDBClient);
+    secrets.AWS_REGION = 'us-east-1';
+    const client2 = await AWSClientFactory.getClient(DynamoDBClient);
+    secrets.AWS_REGION = 'ap-northeast-1';
+
+    expect(client2).not.toBe(client1);
+    expect(await client2.config.region()).toBe('us-east-1');
+  });
+
+  it('Injected Client', async () => {
+    const client = new DynamoDBClient({ region: 'local' });
+    AWSClientFactory.setClient(DynamoDBClient, client);
+
+    expect(await AWSClientFactory.getClient(DynamoDBClient)).toBe(client);
+    expect(getSecretValue).not.toHaveBeenCalled();
+  });
+
+  it('Endpoint', async () => {
+    const client = await AWSClientFactory.getClient(DynamoDBClient, { endpoint: 'http://localhost:8000' });
+
+    expect(await AWSClientFactory.getClient(DynamoDBClient, { endpoint: 'http://localhost:8000' })).toBe(client);
+    expect((await client.config.endpoint!()).hostname).toBe('localhost');
+    expect(getSecretValue).not.toHaveBeenCalled();
+
+    expect(await AWSClientFactory.getClient(DynamoDBClient)).not.toBe(client);
+  });
+
+  it('DynamoDBService uses Client Option', async () => {
+    const send = jest.fn().mockResolvedValue({});
+    const service = new DynamoDBService('Test', { client: { send } as unknown as DynamoDBClient });
+
+    expect(await service.getById('id', 'Type')).toBeNull();
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(getSecretValue).not.toHaveBeenCalled();
+  });
+});
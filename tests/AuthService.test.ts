@@ -0,0 +1,45 @@
+import InMemoryStorageBackend from '@common/services/storage/InMemoryStorageBackend';
+import CacheUtil from '@common/utils/CacheUtil';
+import { AuthDataAccessor } from '@common/services/auth/AuthDataAccessor.v2';
+import { AuthDataType } from '@common/interfaces/data/AuthDataType';
+import { AuthRecordType } from '@common/interfaces/record/AuthRecordType';
+import { AuthService } from '@common/services/auth/AuthService.v2';
+import { ConflictError } from '@common/errors';
+
+describe('AuthService', () => {
+  let backend: InMemoryStorageBackend<AuthRecordType>;
+
+  beforeEach(() => {
+    CacheUtil.clearByPrefix('Auth');
+    backend = new InMemoryStorageBackend<AuthRecordType>('Auth');
+  });
+
+  it.each([true, false])('Get By Google User Id (useCache: %s)', async (useCache) => {
+    const service = new AuthService<AuthDataType, AuthRecordType>(new AuthDataAccessor(backend), useCache);
+    const created = await service.create({ name: 'user', googleUserId: 'google-1' });
+    await service.create({ name: 'other', googleUserId: 'google-2' });
+
+    const find = jest.spyOn(backend, 'find');
+
+    expect(await service.getByGoogleUserId('google-1')).toMatchObject({ id: created.id, name: 'user' });
+    expect(await service.getByGoogleUserId('missing')).toBeNull();
+
+    // キャッシュ有効時は読み込み済みのデータから探し、無効時は GoogleUserID の条件で検索する
+    if (useCache) {
+      expect(find).not.toHaveBeenCalled();
+    } else {
+      expect(find).toHaveBeenCalledWith('Auth', { GoogleUserID: 'google-1' }, undefined);
+    }
+  });
+
+  it('Version', async () => {
+    const service = new AuthService<AuthDataType, AuthRecordType>(new AuthDataAccessor(backend));
+    const created = await service.create({ name: 'user', googleUserId: 'google-1' });
+    expect(created.version).toBe(1);
+
+    const updated = await service.update(created.id, { name: 'renamed' }, { expectedVersion: created.version });
+    expect(updated.version).toBe(2);
+
+    await expect(service.update(created.id, { name: 'stale' }, { expectedVersion: created.version })).rejects.toThrow(ConflictError);
+  });
+});
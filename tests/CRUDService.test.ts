@@ -1,10 +1,15 @@
 import CRUDServiceBase from '@common/services/CRUDServiceBase';
 import DataAccessorBase from '@common/services/DataAccessorBase';
+import InMemoryStorageBackend from '@common/services/storage/InMemoryStorageBackend';
 import DynamoDBServiceMock from '@common-mock/services/aws/DynamoDBServiceMock';
+import AuditContext from '@common/services/audit/AuditContext';
 import ErrorUtil from '@common/utils/ErrorUtil';
+import UpdateOperation from '@common/services/storage/UpdateOperation';
 import { DataTypeBase } from '@common/interfaces/data/DataTypeBase';
-import { NotFoundError } from '@common/errors';
+import CacheUtil from '@common/utils/CacheUtil';
+import { AlreadyExistsError, BadRequestError, ConflictError, NotFoundError } from '@common/errors';
 import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+import { StorageBackend } from '@common/interfaces/storage/StorageBackend';
 
 const tableName = 'Test';
 
@@ -34,13 +39,19 @@ interface TestDataType extends DataTypeBase {
 
 class TestDataAccessor extends DataAccessorBase<TestRecordType> {
   constructor() {
-    super(tableName, TEST_RECORD_DATA_TYPE.TYPEC, new DynamoDBServiceMock(tableName));
+    super(tableName, TEST_RECORD_DATA_TYPE.TYPEC, new InMemoryStorageBackend(tableName));
+  }
+}
+
+class TestSoftDeleteDataAccessor extends DataAccessorBase<TestRecordType> {
+  constructor(backend: StorageBackend<TestRecordType> = new InMemoryStorageBackend(tableName)) {
+    super(tableName, TEST_RECORD_DATA_TYPE.TYPEC, backend, { softDelete: true });
   }
 }
 
 class TestCRUDService extends CRUDServiceBase<TestDataType, TestRecordType> {
-  constructor() {
-    super(new TestDataAccessor());
+  constructor(dataAccessor: DataAccessorBase<TestRecordType> = new TestDataAccessor(), useCache: boolean = true, audit: boolean = false) {
+    super(dataAccessor, useCache, audit);
   }
 
   protected dataToRecord(data: Partial<TestDataType>): Partial<TestRecordType> {
@@ -61,6 +72,7 @@ class TestCRUDService extends CRUDServiceBase<TestDataType, TestRecordType> {
       columnD: record.ColumnD,
       create: record.Create,
       update: record.Update,
+      version: record.Version,
     };
   }
 }
@@ -255,4 +267,285 @@ describe('CRUDServiceBase', () => {
     expect(tableName).toBe('Test');
     expect(dataType).toBe('TypeC');
   });
+
+  it('Update With Expected Version', async () => {
+    const createItem = await service.create({ columnA: 'A1', columnB: 1, columnC: true, columnD: { propX: 'X1', propY: 10 } });
+    expect(createItem.version).toBe(1);
+
+    const updateResult = await service.update(createItem.id, { columnA: 'A2' }, { expectedVersion: 1 });
+    expect(updateResult.version).toBe(2);
+
+    await expect(service.update(createItem.id, { columnA: 'A3' }, { expectedVersion: 1 })).rejects.toThrow(ConflictError);
+    await expect(service.delete(createItem.id, { expectedVersion: 1 })).rejects.toThrow(ConflictError);
+
+    const current = await service.getById(createItem.id);
+    expect(current?.columnA).toBe('A2');
+
+    await service.delete(createItem.id, { expectedVersion: 2 });
+    await expect(service.getById(createItem.id)).rejects.toThrow(NotFoundError);
+  });
+
+  it('Update Not Found', async () => {
+    await expect(service.update('unknown', { columnA: 'A1' })).rejects.toThrow(NotFoundError);
+    expect(await service.get()).toHaveLength(0);
+  });
+
+  it('Update Top Level Only', async () => {
+    const created = await service.create({ columnA: 'A1', columnB: 1, columnC: true, columnD: { propX: 'X1', propY: 10 } });
+
+    // 入れ子の属性のパスは dataToRecord で変換できないため指定できない
+    // @ts-expect-error
+    await service.update(created.id, { 'columnD.propX': 'X2' }).catch(() => undefined);
+
+    expect((await service.update(created.id, { columnD: { propX: 'X2', propY: 20 } })).columnD).toEqual({ propX: 'X2', propY: 20 });
+  });
+
+  it('Create Many And Delete Many', async () => {
+    const creates: Partial<TestDataType>[] = Array.from({ length: 30 }, (_, i) => ({
+      columnA: `A${i}`,
+      columnB: i,
+      columnC: i % 2 === 0,
+      columnD: { propX: `X${i}`, propY: i },
+    }));
+
+    const items = await service.createMany(creates);
+    expect(items.length).toBe(30);
+
+    const results = await service.get();
+    expect(results).toEqual(expect.arrayContaining(items));
+    expect(results.filter(r => r.id === items[0].id).length).toBe(1);
+
+    await service.deleteMany(items.map(i => i.id));
+
+    const remaining = await service.get();
+    items.forEach(item => {
+      expect(remaining.find(r => r.id === item.id)).toBeUndefined();
+    });
+    await expect(service.getById(items[0].id)).rejects.toThrow(NotFoundError);
+  });
+
+  it('Create With Id', async () => {
+    const id = 'natural-key-1';
+    const createItem = await service.create(
+      { columnA: 'A1', columnB: 1, columnC: true, columnD: { propX: 'X1', propY: 10 } },
+      { id, ifNotExists: true }
+    );
+
+    expect(createItem.id).toBe(id);
+
+    await expect(service.create(
+      { columnA: 'A2', columnB: 2, columnC: false, columnD: { propX: 'X2', propY: 20 } },
+      { id, ifNotExists: true }
+    )).rejects.toThrow(AlreadyExistsError);
+
+    expect((await service.getById(id))?.columnA).toBe('A1');
+
+    await service.create(
+      { columnA: 'A3', columnB: 3, columnC: false, columnD: { propX: 'X3', propY: 30 } },
+      { id }
+    );
+
+    const results = await service.get();
+    expect(results.filter(r => r.id === id).length).toBe(1);
+    expect((await service.getById(id))?.columnA).toBe('A3');
+  });
+
+  it.each([true, false])('Soft Delete (useCache: %s)', async (useCache) => {
+    const dataAccessor = new TestSoftDeleteDataAccessor();
+    const softDeleteService = new TestCRUDService(dataAccessor, useCache);
+
+    const createItem = await softDeleteService.create({ columnA: 'A1', columnB: 1, columnC: true, columnD: { propX: 'X1', propY: 10 } });
+    const id = createItem.id;
+
+    await softDeleteService.delete(id);
+
+    await expect(softDeleteService.getById(id)).rejects.toThrow(NotFoundError);
+    expect((await softDeleteService.get()).find(i => i.id === id)).toBeUndefined();
+
+    const tombstone = await dataAccessor.getById(id, { includeDeleted: true });
+    expect(tombstone?.Deleted).toBeDefined();
+
+    const restored = await softDeleteService.restore(id);
+    expect(restored.id).toBe(id);
+    expect((await softDeleteService.getById(id))?.columnA).toBe('A1');
+
+    await softDeleteService.purge(id);
+
+    await expect(softDeleteService.getById(id)).rejects.toThrow(NotFoundError);
+    expect(await dataAccessor.getById(id, { includeDeleted: true })).toBeNull();
+  });
+
+  it.each([true, false])('Update Soft Deleted (useCache: %s)', async (useCache) => {
+    const softDeleteService = new TestCRUDService(new TestSoftDeleteDataAccessor(), useCache);
+
+    const createItem = await softDeleteService.create({ columnA: 'A1', columnB: 1, columnC: true, columnD: { propX: 'X1', propY: 10 } });
+    const id = createItem.id;
+
+    await softDeleteService.delete(id);
+
+    await expect(softDeleteService.update(id, { columnA: 'A2' })).rejects.toThrow(NotFoundError);
+    expect((await softDeleteService.get()).find(i => i.id === id)).toBeUndefined();
+  });
+
+  it('Restore Without Soft Delete', async () => {
+    const createItem = await service.create({ columnA: 'A1', columnB: 1, columnC: true, columnD: { propX: 'X1', propY: 10 } });
+
+    await expect(service.restore(createItem.id)).rejects.toThrow();
+  });
+
+  it('Audit', async () => {
+    const dataAccessor = new TestSoftDeleteDataAccessor();
+    const auditService = new TestCRUDService(dataAccessor, false, true);
+
+    const id = await AuditContext.run({ actorId: 'user-1' }, async () => {
+      const createItem = await auditService.create({ columnA: 'A1', columnB: 1, columnC: true, columnD: { propX: 'X1', propY: 10 } });
+      await auditService.update(createItem.id, { columnB: 2 });
+      return createItem.id;
+    });
+    await auditService.delete(id);
+    await AuditContext.run({ actorId: 'user-2' }, () => auditService.restore(id));
+
+    const history = await auditService.getHistory(id);
+
+    expect(history.map(entry => [entry.operation, entry.actorId])).toEqual([
+      ['create', 'user-1'],
+      ['update', 'user-1'],
+      ['delete', null],
+      ['restore', 'user-2'],
+    ]);
+    expect(history[0].changes.ColumnA).toEqual({ after: 'A1' });
+    expect(history[1].changes).toEqual({ ColumnB: { before: 1, after: 2 } });
+    expect(history[2].changes.ColumnB).toEqual({ before: 2 });
+    expect(history.every(entry => entry.targetId === id)).toBe(true);
+    expect(new Set(history.map(entry => entry.id)).size).toBe(4);
+
+    // 監査ログは対象の DataType の取得結果に含まれない
+    expect((await auditService.get()).map(item => item.id)).toEqual([id]);
+    expect(await auditService.getHistory('other-id')).toEqual([]);
+  });
+
+  it('Audit In Transaction', async () => {
+    const backend = new DynamoDBServiceMock<TestRecordType>(tableName);
+    const auditService = new TestCRUDService(new TestSoftDeleteDataAccessor(backend), false, true);
+    const transaction = jest.spyOn(backend, 'transaction');
+
+    const createItem = await auditService.create({ columnA: 'A1', columnB: 1, columnC: true, columnD: { propX: 'X1', propY: 10 } });
+    const updateItem = await auditService.update(createItem.id, { columnB: UpdateOperation.add(2) });
+    await auditService.delete(createItem.id);
+    await auditService.restore(createItem.id);
+    await auditService.purge(createItem.id);
+
+    expect(updateItem.columnB).toBe(3);
+    expect(updateItem.version).toBe(2);
+    expect(transaction).toHaveBeenCalledTimes(5);
+    const history = await auditService.getHistory(createItem.id);
+
+    expect(history.map(entry => [entry.operation, entry.changes.ColumnB])).toEqual([
+      ['create', { after: 1 }],
+      ['update', { before: 1, after: 3 }],
+      ['delete', { before: 3 }],
+      ['restore', undefined],
+      ['purge', { before: 3 }],
+    ]);
+    expect(Object.keys(history[3].changes)).toEqual(['Deleted']);
+
+    // 監査ログは対象と同じ ID の下に、対象の DataType と日時を含む DataType で保存する
+    expect((await backend.getAll()).map(item => item.DataType)).toEqual(
+      Array(5).fill(expect.stringMatching(/^Audit:TypeC:\d{4}-\d{2}-\d{2}T[\d:.]+Z:/))
+    );
+  });
+
+  it('Reject Audited Write When Transaction Fails', async () => {
+    const backend = new DynamoDBServiceMock<TestRecordType>(tableName);
+    const auditService = new TestCRUDService(new TestSoftDeleteDataAccessor(backend), false, true);
+    const createItem = await auditService.create({ columnA: 'A1', columnB: 1, columnC: true, columnD: { propX: 'X1', propY: 10 } });
+
+    await expect(auditService.update(createItem.id, { columnB: 2 }, { expectedVersion: 5 })).rejects.toThrow(ConflictError);
+    await expect(auditService.create({ columnA: 'A2' }, { id: createItem.id, ifNotExists: true })).rejects.toThrow(AlreadyExistsError);
+
+    // 書き込みと監査ログはどちらも保存されない
+    expect((await auditService.getById(createItem.id))?.columnB).toBe(1);
+    expect((await auditService.getHistory(createItem.id)).map(entry => entry.operation)).toEqual(['create']);
+  });
+
+  it('Get History Without Audit', async () => {
+    await expect(service.getHistory('id')).rejects.toThrow('Audit is not enabled');
+  });
+
+  it('Update With Operation', async () => {
+    const createItem = await service.create({ columnA: 'A1', columnB: 1, columnC: true, columnD: { propX: 'X1', propY: 10 } });
+
+    await Promise.all([
+      service.update(createItem.id, { columnB: UpdateOperation.add(1) }),
+      service.update(createItem.id, { columnB: UpdateOperation.add(1) }),
+    ]);
+
+    expect((await service.getById(createItem.id))?.columnB).toBe(3);
+  });
+
+  describe('List', () => {
+    const createListItems = (count: number) => [...Array(count)].map((_, i) => ({
+      columnA: `A${i}`, columnB: i, columnC: true, columnD: { propX: 'X', propY: i }
+    }));
+
+    const listAllIds = async (listService: TestCRUDService, limit: number, sort?: 'asc' | 'desc') => {
+      const ids: string[] = [];
+      let cursor: string | undefined;
+
+      do {
+        const page = await listService.list({ limit, cursor, sort });
+        expect(page.items.length).toBeLessThanOrEqual(limit);
+        ids.push(...page.items.map(i => i.id));
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      return ids;
+    };
+
+    beforeAll(() => {
+      process.env.PROJECT_CURSOR_SECRET = 'test-secret';
+    });
+
+    afterAll(() => {
+      delete process.env.PROJECT_CURSOR_SECRET;
+    });
+
+    beforeEach(() => {
+      CacheUtil.clearByPrefix(tableName);
+    });
+
+    [true, false].forEach(useCache => {
+      it(`Pages In Create Order (useCache: ${useCache})`, async () => {
+        const listService = new TestCRUDService(new TestDataAccessor(), useCache);
+        const created = await listService.createMany(createListItems(5));
+        const expected = [...created]
+          .sort((a, b) => a.create - b.create || (a.id < b.id ? -1 : 1))
+          .map(i => i.id);
+
+        const first = await listService.list({ limit: 2 });
+        expect(first.items.map(i => i.id)).toEqual(expected.slice(0, 2));
+        expect(first.nextCursor).toBeDefined();
+
+        expect(await listAllIds(listService, 2)).toEqual(expected);
+        expect(await listAllIds(listService, 3, 'desc')).toEqual([...expected].reverse());
+        expect(await listService.list({ limit: 5 })).toEqual({ items: expect.any(Array), nextCursor: undefined });
+      });
+    });
+
+    it('Invalid Cursor', async () => {
+      const listService = new TestCRUDService(new TestDataAccessor(), false);
+      await listService.createMany(createListItems(3));
+
+      const { nextCursor } = await listService.list({ limit: 1 });
+      const [body, signature] = nextCursor!.split('.');
+      const payload = JSON.parse(Buffer.from(body, 'base64url').toString());
+      const tampered = Buffer.from(JSON.stringify({ ...payload, key: { ...payload.key, ID: 'other' } })).toString('base64url');
+
+      await expect(listService.list({ cursor: `${tampered}.${signature}` })).rejects.toThrow(BadRequestError);
+      await expect(listService.list({ cursor: 'invalid' })).rejects.toThrow(BadRequestError);
+      await expect(listService.list({ cursor: nextCursor, sort: 'desc' })).rejects.toThrow(BadRequestError);
+      await expect(new TestCRUDService(new TestDataAccessor(), true).list({ cursor: nextCursor })).rejects.toThrow(BadRequestError);
+      await expect(listService.list({ limit: 0 })).rejects.toThrow(BadRequestError);
+    });
+  });
 });
@@ -1,7 +1,17 @@
+import { DynamoDBClient, UpdateItemCommand } from '@aws-sdk/client-dynamodb';
+import { marshall } from '@aws-sdk/util-dynamodb';
+
 import DataAccessorBase from '@common/services/DataAccessorBase';
-import DynamoDBServiceMock from '@common-mock/services/aws/DynamoDBServiceMock';
+import InMemoryStorageBackend from '@common/services/storage/InMemoryStorageBackend';
 import ErrorUtil from '@common/utils/ErrorUtil';
+import UpdateOperation from '@common/services/storage/UpdateOperation';
+import DynamoDBService from '@common/services/aws/DynamoDBService';
 import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+import { StorageBackend } from '@common/interfaces/storage/StorageBackend';
+import { AuthDataAccessor } from '@common/services/auth/AuthDataAccessor.v2';
+import { AuthRecordType } from '@common/interfaces/record/AuthRecordType';
+import { DATA_TYPE_INDEX_NAME } from '@common/consts/DynamoDBConst';
+import { SubscriptionDataAccessor } from '@common/services/subscription/SubscriptionDataAccessor';
 
 const tableName = 'Test';
 
@@ -48,8 +58,26 @@ const generateTypeARecord = (): TestRecordType => {
 }
 
 class TestDataAccessor extends DataAccessorBase<TestRecordType> {
-  constructor() {
-    super(tableName, TEST_RECORD_DATA_TYPE.TYPEA, new DynamoDBServiceMock(tableName));
+  constructor(backend: InMemoryStorageBackend<TestRecordType> = new InMemoryStorageBackend(tableName)) {
+    super(tableName, TEST_RECORD_DATA_TYPE.TYPEA, backend);
+  }
+}
+
+class TestTypeBDataAccessor extends DataAccessorBase<TestRecordType> {
+  constructor(backend: InMemoryStorageBackend<TestRecordType>) {
+    super(tableName, TEST_RECORD_DATA_TYPE.TYPEB, backend);
+  }
+}
+
+class TestTtlDataAccessor extends DataAccessorBase<TestRecordType> {
+  constructor(backend: StorageBackend<TestRecordType>, basis: 'Create' | 'Update') {
+    super(tableName, TEST_RECORD_DATA_TYPE.TYPEA, backend, { ttl: { expiresAfter: 60, basis } });
+  }
+}
+
+class TestSoftDeleteDataAccessor extends DataAccessorBase<TestRecordType> {
+  constructor(backend: InMemoryStorageBackend<TestRecordType>) {
+    super(tableName, TEST_RECORD_DATA_TYPE.TYPEA, backend, { softDelete: true });
   }
 }
 
@@ -186,4 +214,208 @@ describe('DataAccessorBase', () => {
 
     expect(deleteResult).toBeNull();
   });
+
+  it('Get By Id uses own DataType', async () => {
+    const backend = new InMemoryStorageBackend<TestRecordType>(tableName);
+    const typeAAccessor = new TestDataAccessor(backend);
+    const typeBAccessor = new TestTypeBDataAccessor(backend);
+
+    const item = await typeAAccessor.create(generateTypeARecord());
+
+    expect(await typeAAccessor.getById(item.ID)).toEqual(item);
+    expect(await typeBAccessor.getById(item.ID)).toBeNull();
+  });
+
+  it('Find', async () => {
+    const item1 = await dataAccessor.create({ ...generateTypeARecord(), StringColumn: 'findA', NumberColumn: 1 });
+    const item2 = await dataAccessor.create({ ...generateTypeARecord(), StringColumn: 'findB', NumberColumn: 2 });
+
+    expect(await dataAccessor.find({ StringColumn: 'findA' })).toEqual([item1]);
+    expect(await dataAccessor.find({ StringColumn: { begins_with: 'find' }, NumberColumn: { gte: 2 } })).toEqual([item2]);
+    expect(await dataAccessor.find({ StringArrayColumn: { contains: 'z' } })).toEqual([]);
+  });
+
+  it('Batch', async () => {
+    const items = await dataAccessor.batchCreate([generateTypeARecord(), generateTypeARecord(), generateTypeARecord()]);
+
+    expect(items.every(item => item.DataType === TEST_RECORD_DATA_TYPE.TYPEA)).toBe(true);
+
+    const ids = items.map(item => item.ID!).reverse();
+    const results = await dataAccessor.batchGetByIds([...ids, ids[0], 'not-found']);
+
+    expect(results.map(item => item.ID)).toEqual(ids);
+
+    await dataAccessor.batchDelete(ids);
+
+    expect(await dataAccessor.batchGetByIds(ids)).toEqual([]);
+  });
+
+  it('TTL', async () => {
+    const backend = new InMemoryStorageBackend<TestRecordType>(tableName);
+    const ttlDataAccessor = new TestTtlDataAccessor(backend, 'Update');
+
+    const created = await ttlDataAccessor.create(generateTypeARecord());
+    expect(created.ExpiresAt).toBe(Math.floor(created.Create! / 1000) + 60);
+
+    const updated = await ttlDataAccessor.update(created.ID!, { NumberColumn: 1 });
+    expect(updated!.ExpiresAt).toBe(Math.floor(updated!.Update! / 1000) + 60);
+
+    // 期限切れのレコードは TTL による削除前でも取得結果から除外される
+    backend.putItem({ ...created, ExpiresAt: Math.floor(Date.now() / 1000) - 1 });
+    expect(await ttlDataAccessor.getById(created.ID!)).toBeNull();
+    expect(await ttlDataAccessor.get()).toEqual([]);
+    expect(await ttlDataAccessor.batchGetByIds([created.ID!])).toEqual([]);
+  });
+
+  it('Update Expired', async () => {
+    const backend = new InMemoryStorageBackend<TestRecordType>(tableName);
+    const ttlDataAccessor = new TestTtlDataAccessor(backend, 'Update');
+    const created = await ttlDataAccessor.create(generateTypeARecord());
+    const expiresAt = Math.floor(Date.now() / 1000) - 1;
+
+    // TTL による削除前の失効済みのレコードは存在しないものとして扱い、失効日時を延長しない
+    backend.putItem({ ...created, ExpiresAt: expiresAt });
+    expect(await ttlDataAccessor.update(created.ID!, { NumberColumn: 1 })).toBeNull();
+    expect(backend.getStoredItems()).toEqual([{ ...created, ExpiresAt: expiresAt }]);
+
+    const send = jest.fn().mockRejectedValue(Object.assign(new Error('The conditional request failed'), {
+      name: 'ConditionalCheckFailedException',
+      Item: marshall({ ...created, ExpiresAt: expiresAt }),
+    }));
+    const dynamoDataAccessor = new TestTtlDataAccessor(
+      new DynamoDBService<TestRecordType>(tableName, { client: { send } as unknown as DynamoDBClient }),
+      'Update'
+    );
+
+    expect(await dynamoDataAccessor.update(created.ID!, { NumberColumn: 1 }, { expectedVersion: created.Version })).toBeNull();
+    const { ConditionExpression, ExpressionAttributeNames } = (send.mock.calls[0][0] as UpdateItemCommand).input;
+    expect(ConditionExpression!.replace(/#n\d+/g, placeholder => ExpressionAttributeNames![placeholder]))
+      .toMatch(/^Version = :v\d+ AND \(attribute_not_exists\(ExpiresAt\) OR ExpiresAt > :v\d+\)$/);
+  });
+
+  it('TTL based on Create', async () => {
+    const ttlDataAccessor = new TestTtlDataAccessor(new InMemoryStorageBackend(tableName), 'Create');
+
+    const created = await ttlDataAccessor.create(generateTypeARecord());
+    const updated = await ttlDataAccessor.update(created.ID!, { NumberColumn: 1 });
+
+    expect(updated!.ExpiresAt).toBe(created.ExpiresAt);
+  });
+
+  it('Children', async () => {
+    const parent = await dataAccessor.create(generateTypeARecord());
+    const other = await dataAccessor.create(generateTypeARecord());
+
+    const message2 = await dataAccessor.createChild<TestRecordType>(parent.ID!, 'Message', { StringColumn: 'm2' }, { childId: '002' });
+    await dataAccessor.createChild<TestRecordType>(parent.ID!, 'Message', { StringColumn: 'm1' }, { childId: '001' });
+    await dataAccessor.createChild<TestRecordType>(parent.ID!, 'Attachment', { StringColumn: 'a1' });
+    await dataAccessor.createChild<TestRecordType>(other.ID!, 'Message', { StringColumn: 'other' });
+
+    expect(message2).toMatchObject({ ID: parent.ID, DataType: 'Message#002' });
+
+    const messages = await dataAccessor.getChildren<TestRecordType>(parent.ID!, 'Message');
+    expect(messages.map(message => message.StringColumn)).toEqual(['m1', 'm2']);
+    expect(DataAccessorBase.parseChildDataType(messages[0].DataType!)).toEqual({ childType: 'Message', childId: '001' });
+
+    await dataAccessor.updateChild<TestRecordType>(parent.ID!, 'Message', '002', { StringColumn: 'updated' });
+    expect((await dataAccessor.getChild<TestRecordType>(parent.ID!, 'Message', '002'))?.StringColumn).toBe('updated');
+
+    await dataAccessor.deleteChild(parent.ID!, 'Message', '001');
+    expect((await dataAccessor.getChildren(parent.ID!, 'Message')).length).toBe(1);
+
+    // 子レコードは親の DataType の取得結果に含まれない
+    expect(await dataAccessor.getById(parent.ID!)).toEqual(parent);
+    expect((await dataAccessor.get()).length).toBe(2);
+    expect(() => DataAccessorBase.buildChildDataType('Audit#Auth', 'x')).toThrow();
+    expect(() => DataAccessorBase.buildChildDataType('Audit:Auth', 'x')).toThrow();
+  });
+
+  it('Update Operations', async () => {
+    const item = await dataAccessor.create(generateTypeARecord());
+
+    await dataAccessor.update(item.ID!, {
+      NumberColumn: UpdateOperation.add(-23),
+      StringArrayColumn: UpdateOperation.append(['d']),
+      OptionalStringColumn: UpdateOperation.ifNotExists('default'),
+      OptionalNumberColumn: UpdateOperation.add(5),
+    });
+    const updated = await dataAccessor.update(item.ID!, {
+      OptionalStringColumn: UpdateOperation.ifNotExists('ignored'),
+    });
+
+    expect(updated).toMatchObject({
+      NumberColumn: 100,
+      StringArrayColumn: ['a', 'b', 'c', 'd'],
+      OptionalStringColumn: 'default',
+      OptionalNumberColumn: 5,
+      Version: 3,
+    });
+  });
+
+  it('Update Return Values', async () => {
+    const item = await dataAccessor.create(generateTypeARecord());
+
+    const old = await dataAccessor.update(item.ID!, { NumberColumn: 1 }, { returnValues: 'ALL_OLD' });
+    expect(old).toEqual(item);
+
+    const updatedOld = await dataAccessor.update(item.ID!, { NumberColumn: 2, OptionalStringColumn: 'new' }, { returnValues: 'UPDATED_OLD' });
+    expect(updatedOld).toEqual({ NumberColumn: 1, Version: 2, Update: expect.any(Number) });
+
+    expect(await dataAccessor.update('unknown', { NumberColumn: 1 })).toBeNull();
+    expect(await dataAccessor.getById('unknown')).toBeNull();
+  });
+
+  it('Projection', async () => {
+    const item = await dataAccessor.create(generateTypeARecord());
+    await dataAccessor.create({ ...generateTypeARecord(), StringColumn: 'stringB' });
+
+    const items = await dataAccessor.get({ projection: ['ID', 'StringColumn'] });
+    expect(items).toHaveLength(2);
+    expect(items[0]).toEqual({ ID: item.ID, StringColumn: 'stringA' });
+
+    const found = await dataAccessor.find({ StringColumn: 'stringB' }, { projection: ['NumberColumn'] });
+    expect(found).toEqual([{ NumberColumn: 123 }]);
+
+    const byId = await dataAccessor.getById(item.ID!, { projection: ['StringColumn', 'OptionalStringColumn'] });
+    expect(byId).toEqual({ StringColumn: 'stringA' });
+    // @ts-expect-error 指定していない属性は参照できない
+    expect(byId?.NumberColumn).toBeUndefined();
+  });
+
+  it('Projection With Soft Delete', async () => {
+    const softDeleteDataAccessor = new TestSoftDeleteDataAccessor(new InMemoryStorageBackend(tableName));
+    const item = await softDeleteDataAccessor.create(generateTypeARecord());
+    await softDeleteDataAccessor.delete(item.ID!);
+
+    expect(await softDeleteDataAccessor.getById(item.ID!, { projection: ['StringColumn'] })).toBeNull();
+    expect(await softDeleteDataAccessor.get({ projection: ['StringColumn'] })).toEqual([]);
+    expect(await softDeleteDataAccessor.getById(item.ID!, { projection: ['StringColumn'], includeDeleted: true }))
+      .toEqual({ StringColumn: 'stringA' });
+  });
+
+  it('Set Operations', () => {
+    expect(UpdateOperation.add(new Set(['b', 'c'])).apply(new Set(['a', 'b']))).toEqual(new Set(['a', 'b', 'c']));
+    expect(UpdateOperation.deleteFromSet(new Set(['a'])).apply(new Set(['a', 'b']))).toEqual(new Set(['b']));
+    expect(UpdateOperation.deleteFromSet(new Set(['a'])).apply(new Set(['a']))).toBeUndefined();
+  });
+
+  it('Update Paths', () => {
+    expect(UpdateOperation.getUpdatePaths({ ID: 'id', DataType: 'A', Version: 2, StringColumn: 'a', NumberColumn: undefined, 'Detail.label': null }))
+      .toEqual(['StringColumn', 'Detail.label']);
+    expect(() => UpdateOperation.getUpdatePaths({ Detail: {}, 'Detail.label': 'a' })).toThrow('Update paths overlap: Detail.label');
+  });
+});
+
+describe('Default Backend', () => {
+  const getIndexName = (accessor: DataAccessorBase<any>) =>
+    (accessor.getBackend() as DynamoDBService<any>).getDataTypeIndexName();
+
+  it('Data Type Index', () => {
+    // GSI のないテーブルでも使用できるよう、既定では GSI を使用しない
+    expect(getIndexName(new SubscriptionDataAccessor())).toBeUndefined();
+    expect(getIndexName(new AuthDataAccessor<AuthRecordType>())).toBeUndefined();
+
+    expect(getIndexName(new SubscriptionDataAccessor(undefined, { dataTypeIndexName: DATA_TYPE_INDEX_NAME }))).toBe(DATA_TYPE_INDEX_NAME);
+    expect(getIndexName(new AuthDataAccessor<AuthRecordType>(undefined, { dataTypeIndexName: DATA_TYPE_INDEX_NAME }))).toBe(DATA_TYPE_INDEX_NAME);
+  });
 });
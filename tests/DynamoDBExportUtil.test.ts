@@ -0,0 +1,141 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BatchWriteItemCommand, DynamoDBClient, ScanCommand } from '@aws-sdk/client-dynamodb';
+
+import DynamoDBExportUtil from '@common/utils/DynamoDBExportUtil';
+import DynamoDBService from '@common/services/aws/DynamoDBService';
+import DynamoDBServiceMock from '@common-mock/services/aws/DynamoDBServiceMock';
+import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+import { SubscriptionDataAccessor } from '@common/services/subscription/SubscriptionDataAccessor';
+import { SubscriptionRecordType } from '@common/interfaces/record/SubscriptionRecordType';
+
+const tableName = 'Test';
+
+interface TypedRecordType extends RecordTypeBase {
+  Tags: Set<string>;
+  Scores: Set<number>;
+  Payload: Uint8Array;
+  Nested: { count: number; flags: boolean[] };
+}
+
+describe('DynamoDBExportUtil', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'dynamodb-export-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('Seed Mock From Fixture', async () => {
+    const mock = new DynamoDBServiceMock<SubscriptionRecordType>('Subscription');
+
+    const result = await DynamoDBExportUtil.importTable(mock, join(__dirname, 'fixtures/subscriptions.jsonl'), {
+      checkpointPath: join(directory, 'fixture.checkpoint'),
+    });
+
+    expect(result).toEqual({ imported: 2, resumedFromLine: 0 });
+
+    const subscription = await new SubscriptionDataAccessor(mock).getById('subscription-2');
+    expect(subscription?.Subscription.keys.auth).toBe('auth-2');
+  });
+
+  it('Round Trip', async () => {
+    const source = new DynamoDBServiceMock<TypedRecordType>(tableName);
+    source.putItem({
+      ID: 'typed',
+      DataType: 'Typed',
+      Tags: new Set(['a', 'b']),
+      Scores: new Set([1, 2.5]),
+      Payload: new Uint8Array([0, 1, 255]),
+      Nested: { count: 3, flags: [true, false] },
+    });
+    source.putItem({ ID: 'other', DataType: 'Other' } as TypedRecordType);
+
+    const filePath = join(directory, 'export.jsonl');
+
+    expect(await DynamoDBExportUtil.exportTable(source, filePath, { dataType: 'Typed' })).toBe(1);
+    expect(readFileSync(filePath, 'utf8')).toContain('"Payload":{"B":"AAH/"}');
+
+    const target = new DynamoDBServiceMock<TypedRecordType>(tableName);
+    await DynamoDBExportUtil.importTable(target, filePath);
+
+    expect(await target.getById('typed', 'Typed')).toEqual(await source.getById('typed', 'Typed'));
+    expect(await target.getById('other')).toBeNull();
+    expect(existsSync(`${filePath}.checkpoint`)).toBe(false);
+  });
+
+  it('Export To Missing Directory', async () => {
+    const source = new DynamoDBServiceMock<TypedRecordType>(tableName);
+    const iterate = jest.spyOn(source, 'iterateRawItems');
+
+    await expect(DynamoDBExportUtil.exportTable(source, join(directory, 'missing', 'export.jsonl')))
+      .rejects.toMatchObject({ code: 'ENOENT' });
+    expect(iterate).not.toHaveBeenCalled();
+  });
+
+  it('Number Precision', async () => {
+    const send = jest.fn(async (command: unknown) => {
+      if (command instanceof ScanCommand) {
+        return { Items: [{ ID: { S: 'big' }, DataType: { S: 'Big' }, Value: { N: '12345678901234567890.123' } }] };
+      }
+      return {};
+    });
+    const service = new DynamoDBService(tableName, { client: { send } as unknown as DynamoDBClient });
+    const filePath = join(directory, 'big.jsonl');
+
+    await DynamoDBExportUtil.exportTable(service, filePath);
+    await DynamoDBExportUtil.importTable(service, filePath);
+
+    const write = send.mock.calls.map(call => call[0]).find(command => command instanceof BatchWriteItemCommand) as BatchWriteItemCommand;
+    expect(write.input.RequestItems![tableName][0].PutRequest!.Item!.Value).toEqual({ N: '12345678901234567890.123' });
+  });
+
+  it('Deduplicate Keys In Batch', async () => {
+    const filePath = join(directory, 'duplicate.jsonl');
+    writeFileSync(filePath, [
+      { ID: { S: '1' }, DataType: { S: 'Typed' }, Nested: { M: { count: { N: '1' } } } },
+      { ID: { S: '1' }, DataType: { S: 'Other' } },
+      { ID: { S: '2' }, DataType: { S: 'Typed' } },
+      { ID: { S: '1' }, DataType: { S: 'Typed' }, Nested: { M: { count: { N: '2' } } } },
+    ].map(item => JSON.stringify(item)).join('\n'));
+
+    const target = new DynamoDBServiceMock<TypedRecordType>(tableName);
+    const spy = jest.spyOn(target, 'batchPutRawItems');
+
+    expect(await DynamoDBExportUtil.importTable(target, filePath)).toEqual({ imported: 3, resumedFromLine: 0 });
+
+    // 同じ ID・DataType のアイテムは 1 件にまとめ、後の行を書き込む
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(spy.mock.calls[0][0].map(item => [item.ID.S, item.DataType.S])).toEqual([['1', 'Other'], ['2', 'Typed'], ['1', 'Typed']]);
+    expect((await target.getById('1', 'Typed'))?.Nested.count).toBe(2);
+  });
+
+  it('Resume From Checkpoint', async () => {
+    const source = new DynamoDBServiceMock<TypedRecordType>(tableName);
+    ['1', '2', '3'].forEach(id => source.putItem({ ID: id, DataType: 'Typed' } as TypedRecordType));
+
+    const filePath = join(directory, 'resume.jsonl');
+    await DynamoDBExportUtil.exportTable(source, filePath);
+
+    const target = new DynamoDBServiceMock<TypedRecordType>(tableName);
+    const batchPutRawItems = target.batchPutRawItems.bind(target);
+    const spy = jest.spyOn(target, 'batchPutRawItems')
+      .mockImplementationOnce(batchPutRawItems)
+      .mockRejectedValueOnce(new Error('Throttled'));
+
+    await expect(DynamoDBExportUtil.importTable(target, filePath, { batchSize: 1 })).rejects.toThrow('Throttled');
+    expect(JSON.parse(readFileSync(`${filePath}.checkpoint`, 'utf8'))).toEqual({ line: 1 });
+
+    const progress: number[] = [];
+    const result = await DynamoDBExportUtil.importTable(target, filePath, { batchSize: 1, onProgress: imported => progress.push(imported) });
+
+    expect(result).toEqual({ imported: 2, resumedFromLine: 1 });
+    expect(progress).toEqual([1, 2]);
+    expect(spy).toHaveBeenCalledTimes(4);
+    expect((await target.getAll()).map(item => item.ID).sort()).toEqual(['1', '2', '3']);
+  });
+});
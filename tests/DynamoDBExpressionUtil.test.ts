@@ -0,0 +1,75 @@
+import DynamoDBExpressionUtil, { ExpressionAttributes } from '@common/utils/DynamoDBExpressionUtil';
+import { QueryCondition } from '@common/interfaces/query/QueryCondition';
+import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+
+interface TestRecordType extends RecordTypeBase {
+  Name: string;
+  Count: number;
+  Tags: string[];
+  Detail?: { key: string };
+}
+
+describe('DynamoDBExpressionUtil', () => {
+  describe('buildConditionExpression', () => {
+    it('should treat plain values as eq', () => {
+      const attributes = new ExpressionAttributes();
+      const expression = DynamoDBExpressionUtil.buildConditionExpression<TestRecordType>({ Name: 'Alpha' }, attributes);
+
+      expect(expression).toBe('#n0 = :v0');
+      expect(attributes.getNames()).toEqual({ '#n0': 'Name' });
+      expect(attributes.getValues()).toEqual({ ':v0': { S: 'Alpha' } });
+    });
+
+    it('should build each operator', () => {
+      const attributes = new ExpressionAttributes();
+      const condition: QueryCondition<TestRecordType> = {
+        Name: { begins_with: 'Al' },
+        Count: { between: [1, 10], ne: 3 },
+        Tags: { contains: 'a' },
+        DataType: { in: ['Test', 'Other'] },
+        Detail: { exists: true },
+      };
+
+      const expression = DynamoDBExpressionUtil.buildConditionExpression(condition, attributes);
+
+      expect(expression).toBe([
+        'begins_with(#n0, :v0)',
+        '#n1 BETWEEN :v1 AND :v2',
+        '#n1 <> :v3',
+        'contains(#n2, :v4)',
+        '#n3 IN (:v5, :v6)',
+        'attribute_exists(#n4)',
+      ].join(' AND '));
+      expect(attributes.getNames()).toEqual({
+        '#n0': 'Name',
+        '#n1': 'Count',
+        '#n2': 'Tags',
+        '#n3': 'DataType',
+        '#n4': 'Detail',
+      });
+    });
+
+    it('should use placeholders for attribute names with special characters', () => {
+      const attributes = new ExpressionAttributes();
+      const expression = DynamoDBExpressionUtil.buildConditionExpression<Record<string, string>>({ 'Name) OR (x': 'y' }, attributes);
+
+      expect(expression).toBe('#n0 = :v0');
+      expect(attributes.getNames()).toEqual({ '#n0': 'Name) OR (x' });
+    });
+
+    it('should return undefined for an empty condition', () => {
+      const attributes = new ExpressionAttributes();
+
+      expect(DynamoDBExpressionUtil.buildConditionExpression({}, attributes)).toBeUndefined();
+      expect(attributes.getNames()).toBeUndefined();
+      expect(attributes.getValues()).toBeUndefined();
+    });
+
+    it('should reject an empty in operator', () => {
+      expect(() => DynamoDBExpressionUtil.buildConditionExpression<TestRecordType>(
+        { Name: { in: [] } },
+        new ExpressionAttributes()
+      )).toThrow();
+    });
+  });
+});
@@ -0,0 +1,415 @@
+import {
+  BatchGetItemCommand,
+  BatchWriteItemCommand,
+  CreateTableCommand,
+  DynamoDBClient,
+  GetItemCommand,
+  QueryCommand,
+  ScanCommand,
+  UpdateItemCommand
+} from '@aws-sdk/client-dynamodb';
+import { marshall } from '@aws-sdk/util-dynamodb';
+
+import DynamoDBService from '@common/services/aws/DynamoDBService';
+import UpdateOperation from '@common/services/storage/UpdateOperation';
+import { DATA_TYPE_INDEX_NAME } from '@common/consts/DynamoDBConst';
+import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+import { ConflictError } from '@common/errors';
+
+const tableName = 'Test';
+
+interface CounterRecordType extends RecordTypeBase {
+  Detail?: { label: string; limits: { daily: number } };
+  Count: number;
+  Tags: Set<string>;
+  History: string[];
+  Plan: string;
+  Note?: string;
+}
+
+describe('DynamoDBService', () => {
+  describe('Create Table', () => {
+    let send: jest.Mock;
+    let client: DynamoDBClient;
+
+    beforeEach(() => {
+      send = jest.fn().mockResolvedValue({ Table: { TableStatus: 'ACTIVE' } });
+      client = { send } as unknown as DynamoDBClient;
+    });
+
+    it('Single Table Schema', async () => {
+      const service = new DynamoDBService(tableName, { client, dataTypeIndexName: DATA_TYPE_INDEX_NAME });
+
+      expect(await service.createTable({
+        globalSecondaryIndexes: [{ indexName: 'TerminalID-index', partitionKey: 'TerminalID', sortKey: 'DataType' }]
+      })).toBe(true);
+
+      const command = send.mock.calls[0][0] as CreateTableCommand;
+      expect(command).toBeInstanceOf(CreateTableCommand);
+      expect(command.input.KeySchema).toEqual([
+        { AttributeName: 'ID', KeyType: 'HASH' },
+        { AttributeName: 'DataType', KeyType: 'RANGE' }
+      ]);
+      expect(command.input.AttributeDefinitions).toEqual([
+        { AttributeName: 'ID', AttributeType: 'S' },
+        { AttributeName: 'DataType', AttributeType: 'S' },
+        { AttributeName: 'TerminalID', AttributeType: 'S' },
+        { AttributeName: 'Create', AttributeType: 'N' },
+      ]);
+      expect(command.input.GlobalSecondaryIndexes!.map(index => index.IndexName)).toEqual(['TerminalID-index', DATA_TYPE_INDEX_NAME]);
+      expect(command.input.GlobalSecondaryIndexes![1].KeySchema).toEqual([
+        { AttributeName: 'DataType', KeyType: 'HASH' },
+        { AttributeName: 'Create', KeyType: 'RANGE' }
+      ]);
+    });
+
+    it('Table Already Exists', async () => {
+      send.mockRejectedValueOnce(Object.assign(new Error('Table already exists'), { name: 'ResourceInUseException' }));
+      const service = new DynamoDBService(tableName, { client });
+
+      expect(await service.createTable()).toBe(false);
+      expect(send).toHaveBeenCalledTimes(1);
+      expect((send.mock.calls[0][0] as CreateTableCommand).input.GlobalSecondaryIndexes).toBeUndefined();
+    });
+  });
+
+  describe('Update', () => {
+    let send: jest.Mock;
+    let service: DynamoDBService<CounterRecordType>;
+
+    const conditionalCheckFailed = (item?: Record<string, unknown>) => Object.assign(
+      new Error('The conditional request failed'),
+      { name: 'ConditionalCheckFailedException', Item: item && marshall(item) }
+    );
+
+    beforeEach(() => {
+      send = jest.fn();
+      service = new DynamoDBService<CounterRecordType>(tableName, { client: { send } as unknown as DynamoDBClient });
+    });
+
+    it('Returns Updated Item', async () => {
+      send.mockResolvedValue({ Attributes: marshall({ ID: 'id', DataType: 'Counter', Count: 2, Version: 2 }) });
+
+      expect(await service.update('id', 'Counter', { Count: 2 })).toEqual({ ID: 'id', DataType: 'Counter', Count: 2, Version: 2 });
+      expect(send).toHaveBeenCalledTimes(1);
+
+      const command = send.mock.calls[0][0] as UpdateItemCommand;
+      expect(command).toBeInstanceOf(UpdateItemCommand);
+      expect(command.input.ReturnValues).toBe('ALL_NEW');
+      expect(command.input.ConditionExpression).toMatch(/^attribute_exists\(#n\d+\) AND \(attribute_not_exists\(#n\d+\) OR #n\d+ > :v\d+\)$/);
+    });
+
+    it('Return Values', async () => {
+      send.mockResolvedValue({ Attributes: marshall({ Count: 1, Version: 1 }) });
+
+      const old: Partial<CounterRecordType> | null = await service.update('id', 'Counter', { Count: 2 }, { returnValues: 'UPDATED_OLD' });
+
+      expect(old).toEqual({ Count: 1, Version: 1 });
+      expect((send.mock.calls[0][0] as UpdateItemCommand).input.ReturnValues).toBe('UPDATED_OLD');
+    });
+
+    it('Not Found', async () => {
+      send.mockRejectedValueOnce(conditionalCheckFailed());
+      expect(await service.update('id', 'Counter', { Count: 2 })).toBeNull();
+
+      send.mockRejectedValueOnce(conditionalCheckFailed());
+      expect(await service.update('id', 'Counter', { Count: 2 }, { expectedVersion: 1 })).toBeNull();
+
+      send.mockRejectedValueOnce(conditionalCheckFailed({ ID: 'id', DataType: 'Counter', Version: 2 }));
+      await expect(service.update('id', 'Counter', { Count: 2 }, { expectedVersion: 1 })).rejects.toThrow(ConflictError);
+    });
+
+    it('Exclude Deleted', async () => {
+      send.mockRejectedValueOnce(conditionalCheckFailed({ ID: 'id', DataType: 'Counter', Version: 2, Deleted: 1 }));
+
+      expect(await service.update('id', 'Counter', { Count: 2 }, { excludeDeleted: true })).toBeNull();
+      expect((send.mock.calls[0][0] as UpdateItemCommand).input.ConditionExpression)
+        .toMatch(/^attribute_exists\(#n\d+\) AND \(.+\) AND attribute_not_exists\(#n\d+\)$/);
+    });
+
+    it('Exclude Expired', async () => {
+      send.mockRejectedValueOnce(conditionalCheckFailed({ ID: 'id', DataType: 'Counter', Version: 2, ExpiresAt: 1 }));
+
+      expect(await service.update('id', 'Counter', { Count: 2 }, { expectedVersion: 2 })).toBeNull();
+    });
+  });
+
+  describe('Projection', () => {
+    let send: jest.Mock;
+    let service: DynamoDBService<CounterRecordType>;
+
+    beforeEach(() => {
+      send = jest.fn();
+      service = new DynamoDBService<CounterRecordType>(tableName, {
+        client: { send } as unknown as DynamoDBClient,
+        dataTypeIndexName: DATA_TYPE_INDEX_NAME
+      });
+    });
+
+    it('Get By Id', async () => {
+      send.mockResolvedValue({ Item: marshall({ Count: 1, ExpiresAt: Math.floor(Date.now() / 1000) + 60 }) });
+
+      expect(await service.getById('id', 'Counter', ['Count'])).toEqual({ Count: 1 });
+
+      const command = send.mock.calls[0][0] as GetItemCommand;
+      const names = command.input.ExpressionAttributeNames!;
+      expect(command.input.ProjectionExpression!.replace(/#n\d+/g, placeholder => names[placeholder])).toBe('Count, ExpiresAt');
+    });
+
+    it('Find', async () => {
+      send.mockResolvedValue({ Items: [marshall({ ID: 'id', Plan: 'free' })] });
+
+      expect(await service.find('Counter', { Plan: 'free' }, ['ID', 'Plan'])).toEqual([{ ID: 'id', Plan: 'free' }]);
+
+      const command = send.mock.calls[0][0] as QueryCommand;
+      const names = command.input.ExpressionAttributeNames!;
+      expect(command.input.ProjectionExpression!.replace(/#n\d+/g, placeholder => names[placeholder])).toBe('ID, Plan, ExpiresAt');
+      expect(command.input.FilterExpression).toBeDefined();
+    });
+  });
+
+  describe('Read', () => {
+    let send: jest.Mock;
+    let service: DynamoDBService<CounterRecordType>;
+
+    beforeEach(() => {
+      send = jest.fn();
+      service = new DynamoDBService<CounterRecordType>(tableName, { client: { send } as unknown as DynamoDBClient });
+    });
+
+    it('Follows LastEvaluatedKey', async () => {
+      const lastEvaluatedKey = marshall({ ID: 'id1', DataType: 'Counter' });
+      send
+        .mockResolvedValueOnce({ Items: [marshall({ ID: 'id1', DataType: 'Counter', Count: 1 })], LastEvaluatedKey: lastEvaluatedKey })
+        .mockResolvedValueOnce({ Items: [marshall({ ID: 'id2', DataType: 'Counter', Count: 2 })] });
+
+      expect(await service.getAllByDataType('Counter')).toEqual([
+        { ID: 'id1', DataType: 'Counter', Count: 1 },
+        { ID: 'id2', DataType: 'Counter', Count: 2 },
+      ]);
+
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(send.mock.calls[0][0]).toBeInstanceOf(ScanCommand);
+      expect((send.mock.calls[0][0] as ScanCommand).input.ExclusiveStartKey).toBeUndefined();
+      expect((send.mock.calls[1][0] as ScanCommand).input.ExclusiveStartKey).toEqual(lastEvaluatedKey);
+    });
+
+    it('Get Item Or Query', async () => {
+      send.mockResolvedValue({ Item: marshall({ ID: 'id', DataType: 'Counter', Count: 1 }) });
+      expect(await service.getById('id', 'Counter')).toEqual({ ID: 'id', DataType: 'Counter', Count: 1 });
+
+      const getCommand = send.mock.calls[0][0] as GetItemCommand;
+      expect(getCommand).toBeInstanceOf(GetItemCommand);
+      expect(getCommand.input.Key).toEqual(marshall({ ID: 'id', DataType: 'Counter' }));
+
+      // DataType を指定しない場合はパーティションキーで Query する
+      send.mockResolvedValue({ Items: [marshall({ ID: 'id', DataType: 'Counter', Count: 1 })] });
+      expect(await service.getById('id')).toEqual({ ID: 'id', DataType: 'Counter', Count: 1 });
+
+      const queryCommand = send.mock.calls[1][0] as QueryCommand;
+      expect(queryCommand).toBeInstanceOf(QueryCommand);
+      expect(queryCommand.input.Limit).toBe(1);
+      expect(queryCommand.input.IndexName).toBeUndefined();
+    });
+
+    it('Query Data Type Index', async () => {
+      const indexedService = new DynamoDBService<CounterRecordType>(tableName, {
+        client: { send } as unknown as DynamoDBClient,
+        dataTypeIndexName: DATA_TYPE_INDEX_NAME
+      });
+      send.mockResolvedValue({ Items: [marshall({ ID: 'id', DataType: 'Counter', Count: 1 })] });
+
+      expect(await indexedService.getAllByDataType('Counter')).toEqual([{ ID: 'id', DataType: 'Counter', Count: 1 }]);
+      expect(await indexedService.find('Counter', { Count: { gt: 0 } })).toEqual([{ ID: 'id', DataType: 'Counter', Count: 1 }]);
+
+      send.mock.calls.forEach(([command]) => {
+        const { input } = command as QueryCommand;
+
+        expect(command).toBeInstanceOf(QueryCommand);
+        expect(input.IndexName).toBe(DATA_TYPE_INDEX_NAME);
+        expect(input.KeyConditionExpression).toBe('#n0 = :v0');
+        expect(input.ExpressionAttributeNames!['#n0']).toBe('DataType');
+        expect(input.ExpressionAttributeValues![':v0']).toEqual({ S: 'Counter' });
+      });
+      expect((send.mock.calls[1][0] as QueryCommand).input.FilterExpression).toBe('#n1 > :v1');
+    });
+
+    it('Scan Without Data Type Index', async () => {
+      send.mockResolvedValue({ Items: [marshall({ ID: 'id', DataType: 'Counter', Count: 1 })] });
+
+      expect(await service.getAllByDataType('Counter')).toEqual([{ ID: 'id', DataType: 'Counter', Count: 1 }]);
+      expect(await service.find('Counter', { Count: { gt: 0 } })).toEqual([{ ID: 'id', DataType: 'Counter', Count: 1 }]);
+
+      send.mock.calls.forEach(([command]) => {
+        const { input } = command as ScanCommand;
+
+        expect(command).toBeInstanceOf(ScanCommand);
+        expect(input.ExpressionAttributeNames!['#n0']).toBe('DataType');
+        expect(input.ExpressionAttributeValues![':v0']).toEqual({ S: 'Counter' });
+      });
+      expect((send.mock.calls[0][0] as ScanCommand).input.FilterExpression).toBe('#n0 = :v0');
+      expect((send.mock.calls[1][0] as ScanCommand).input.FilterExpression).toBe('#n0 = :v0 AND #n1 > :v1');
+    });
+  });
+
+  describe('Batch', () => {
+    let send: jest.Mock;
+    let service: DynamoDBService<CounterRecordType>;
+
+    beforeEach(() => {
+      send = jest.fn();
+      service = new DynamoDBService<CounterRecordType>(tableName, { client: { send } as unknown as DynamoDBClient });
+
+      // 再送までの待機を省略する
+      jest.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void) => {
+        callback();
+        return 0;
+      }) as unknown as typeof setTimeout);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('Retries Unprocessed Items', async () => {
+      const unprocessed = { DeleteRequest: { Key: marshall({ ID: 'id2', DataType: 'Counter' }) } };
+      send
+        .mockResolvedValueOnce({ UnprocessedItems: { [tableName]: [unprocessed] } })
+        .mockResolvedValueOnce({});
+
+      await service.batchDelete(['id1', 'id2'], 'Counter');
+
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(send.mock.calls[1][0]).toBeInstanceOf(BatchWriteItemCommand);
+      expect((send.mock.calls[1][0] as BatchWriteItemCommand).input.RequestItems).toEqual({ [tableName]: [unprocessed] });
+    });
+
+    it('Retries Unprocessed Keys', async () => {
+      const unprocessedKey = marshall({ ID: 'id2', DataType: 'Counter' });
+      send
+        .mockResolvedValueOnce({
+          Responses: { [tableName]: [marshall({ ID: 'id1', DataType: 'Counter', Count: 1 })] },
+          UnprocessedKeys: { [tableName]: { Keys: [unprocessedKey] } }
+        })
+        .mockResolvedValueOnce({ Responses: { [tableName]: [marshall({ ID: 'id2', DataType: 'Counter', Count: 2 })] } });
+
+      expect((await service.batchGetByIds(['id2', 'id1'], 'Counter')).map(item => item.ID)).toEqual(['id2', 'id1']);
+
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(send.mock.calls[1][0]).toBeInstanceOf(BatchGetItemCommand);
+      expect((send.mock.calls[1][0] as BatchGetItemCommand).input.RequestItems).toEqual({ [tableName]: { Keys: [unprocessedKey] } });
+    });
+
+    it('Fails After Retries', async () => {
+      const unprocessed = { DeleteRequest: { Key: marshall({ ID: 'id1', DataType: 'Counter' }) } };
+      send.mockResolvedValue({ UnprocessedItems: { [tableName]: [unprocessed] } });
+
+      await expect(service.batchDelete(['id1'], 'Counter')).rejects.toThrow('Failed to process 1 batch requests after 5 retries');
+      expect(send).toHaveBeenCalledTimes(6);
+    });
+  });
+
+  it('Find Page', async () => {
+    const send = jest.fn().mockResolvedValue({
+      Items: [marshall({ ID: 'id2', DataType: 'Counter', Create: 2 })],
+      LastEvaluatedKey: marshall({ ID: 'id2', DataType: 'Counter', Create: 2 })
+    });
+    const service = new DynamoDBService<CounterRecordType>(tableName, {
+      client: { send } as unknown as DynamoDBClient,
+      dataTypeIndexName: DATA_TYPE_INDEX_NAME
+    });
+
+    const page = await service.findPage('Counter', {}, {
+      limit: 1,
+      exclusiveStartKey: { ID: 'id1', DataType: 'Counter', Create: 1 },
+      sort: 'desc'
+    });
+
+    expect(page).toEqual({
+      items: [{ ID: 'id2', DataType: 'Counter', Create: 2 }],
+      lastEvaluatedKey: { ID: 'id2', DataType: 'Counter', Create: 2 }
+    });
+
+    const command = send.mock.calls[0][0] as QueryCommand;
+    expect(command.input).toMatchObject({
+      IndexName: DATA_TYPE_INDEX_NAME,
+      ScanIndexForward: false,
+      Limit: 1,
+      ExclusiveStartKey: marshall({ ID: 'id1', DataType: 'Counter', Create: 1 })
+    });
+  });
+
+  it('Find Page Without Index', async () => {
+    // GSI がない場合は Scan した全件を Create の順に並べ替える
+    const send = jest.fn()
+      .mockResolvedValueOnce({
+        Items: [marshall({ ID: 'id3', DataType: 'Counter', Create: 3 }), marshall({ ID: 'id1', DataType: 'Counter', Create: 1 })],
+        LastEvaluatedKey: marshall({ ID: 'id1', DataType: 'Counter' })
+      })
+      .mockResolvedValueOnce({ Items: [marshall({ ID: 'id2', DataType: 'Counter', Create: 2 })] });
+    const service = new DynamoDBService<CounterRecordType>(tableName, { client: { send } as unknown as DynamoDBClient });
+
+    const page = await service.findPage('Counter', {}, {
+      limit: 1,
+      exclusiveStartKey: { ID: 'id1', DataType: 'Counter', Create: 1 },
+      sort: 'asc'
+    });
+
+    expect(page).toEqual({
+      items: [{ ID: 'id2', DataType: 'Counter', Create: 2 }],
+      lastEvaluatedKey: { ID: 'id2', DataType: 'Counter', Create: 2 }
+    });
+    expect(send.mock.calls.map(([command]) => command)).toEqual([expect.any(ScanCommand), expect.any(ScanCommand)]);
+
+    send.mockResolvedValueOnce({ Items: [marshall({ ID: 'id3', DataType: 'Counter', Create: 3 })] });
+    expect(await service.findPage('Counter', {}, { limit: 1, sort: 'desc' }))
+      .toEqual({ items: [{ ID: 'id3', DataType: 'Counter', Create: 3 }], lastEvaluatedKey: undefined });
+  });
+
+  it('Build Update With Operations', () => {
+    const service = new DynamoDBService<CounterRecordType>(tableName);
+
+    const update = service.buildUpdate('id', 'Counter', {
+      Count: UpdateOperation.add(1),
+      Tags: UpdateOperation.deleteFromSet(new Set(['old'])),
+      History: UpdateOperation.append(['entry']),
+      Plan: UpdateOperation.ifNotExists('free'),
+      Note: null,
+    });
+
+    const names = update.ExpressionAttributeNames!;
+    const expression = update.UpdateExpression!.replace(/#n\d+/g, placeholder => names[placeholder]);
+
+    expect(expression).toMatch(/^SET Version = if_not_exists\(Version, :v\d+\) \+ :v\d+, /);
+    expect(expression).toMatch(/History = list_append\(if_not_exists\(History, :v\d+\), :v\d+\)/);
+    expect(expression).toMatch(/Plan = if_not_exists\(Plan, :v\d+\)/);
+    expect(expression).toMatch(/ REMOVE Note ADD Count :v\d+ DELETE Tags :v\d+$/);
+    expect(Object.values(update.ExpressionAttributeValues!)).toEqual(expect.arrayContaining([
+      { N: '1' },
+      { SS: ['old'] },
+      { L: [{ S: 'entry' }] },
+      { S: 'free' },
+    ]));
+  });
+
+  it('Build Update With Nested Path', () => {
+    const service = new DynamoDBService<CounterRecordType>(tableName);
+
+    const update = service.buildUpdate('id', 'Counter', {
+      'Detail.limits.daily': UpdateOperation.add(10),
+      'Detail.label': 'label',
+    });
+
+    const names = update.ExpressionAttributeNames!;
+    expect(update.UpdateExpression).toMatch(/ADD #n\d+\.#n\d+\.#n\d+ :v\d+$/);
+    expect(Object.values(names).sort()).toEqual(['Detail', 'ExpiresAt', 'ID', 'Update', 'Version', 'daily', 'label', 'limits']);
+
+    expect(() => service.buildUpdate('id', 'Counter', {
+      Detail: { label: 'label', limits: { daily: 1 } },
+      'Detail.label': 'label',
+    })).toThrow('Update paths overlap: Detail.label');
+
+    // @ts-expect-error 存在しないパスは指定できない
+    service.buildUpdate('id', 'Counter', { 'Detail.unknown': 1 });
+  });
+});
@@ -0,0 +1,128 @@
+import DynamoDBStreamDispatcher from '@common/services/aws/DynamoDBStreamDispatcher';
+import DataAccessorBase from '@common/services/DataAccessorBase';
+import InMemoryStorageBackend from '@common/services/storage/InMemoryStorageBackend';
+import { AuditDataAccessor } from '@common/services/audit/AuditDataAccessor';
+import { AuthDataAccessor } from '@common/services/auth/AuthDataAccessor.v2';
+import DynamoDBStreamEventUtil from '@common/utils/DynamoDBStreamEventUtil';
+import MigrationRegistry from '@common/services/migration/MigrationRegistry';
+import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+
+interface UserRecordType extends RecordTypeBase {
+  Name: string;
+  Tags?: Set<string>;
+}
+
+describe('DynamoDBStreamDispatcher', () => {
+  const user: UserRecordType = { ID: 'user-1', DataType: 'User', Name: 'first', Tags: new Set(['a']), Version: 1 };
+  const renamed: UserRecordType = { ...user, Name: 'renamed', Version: 2 };
+
+  const onError = jest.fn();
+
+  afterEach(() => {
+    MigrationRegistry.clear();
+    onError.mockReset();
+  });
+
+  it('Route By DataType', async () => {
+    const insert = jest.fn();
+    const modify = jest.fn();
+    const remove = jest.fn();
+    const other = jest.fn();
+
+    const dispatcher = new DynamoDBStreamDispatcher({ onError })
+      .on<UserRecordType>('User', { insert, modify, remove })
+      .on('Other', { insert: other });
+
+    const result = await dispatcher.dispatch(DynamoDBStreamEventUtil.createEvent(
+      DynamoDBStreamEventUtil.createRecord('INSERT', { newImage: user }),
+      DynamoDBStreamEventUtil.createRecord('MODIFY', { newImage: renamed, oldImage: user }),
+      DynamoDBStreamEventUtil.createRecord('REMOVE', { oldImage: renamed }),
+      DynamoDBStreamEventUtil.createRecord('INSERT', { newImage: { ID: 'unknown-1', DataType: 'Unknown' } }),
+    ));
+
+    expect(result).toEqual({ batchItemFailures: [] });
+    expect(onError).not.toHaveBeenCalled();
+
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({ eventName: 'INSERT', id: 'user-1', dataType: 'User', newImage: user }));
+    expect(insert.mock.calls[0][0].newImage.Tags).toBeInstanceOf(Set);
+    expect(modify).toHaveBeenCalledWith(expect.objectContaining({ eventName: 'MODIFY', newImage: renamed, oldImage: user }));
+    expect(remove).toHaveBeenCalledWith(expect.objectContaining({ eventName: 'REMOVE', oldImage: renamed, expired: false }));
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it('Route Child Records And TTL Removal', async () => {
+    const remove = jest.fn();
+    const dispatcher = new DynamoDBStreamDispatcher({ onError }).on('Device', { remove });
+
+    await dispatcher.dispatch({
+      Records: [
+        DynamoDBStreamEventUtil.createRecord('REMOVE', { oldImage: { ID: 'user-1', DataType: 'Device#device-1' } }, {
+          userIdentity: DynamoDBStreamEventUtil.TTL_IDENTITY,
+        }),
+      ],
+    });
+
+    expect(remove).toHaveBeenCalledWith(expect.objectContaining({ dataType: 'Device#device-1', expired: true }));
+  });
+
+  it('Do Not Route Audit Records As Child Records', async () => {
+    const audit = jest.fn();
+    const child = jest.fn();
+    const dataType = `${new AuditDataAccessor(new AuthDataAccessor(new InMemoryStorageBackend('Auth'))).getDataType()}:2026-01-01T00:00:00.000Z:audit-1`;
+
+    await new DynamoDBStreamDispatcher({ onError })
+      .on('Audit', { insert: child })
+      .on(dataType, { insert: audit })
+      .dispatch({ Records: [DynamoDBStreamEventUtil.createRecord('INSERT', { newImage: { ID: 'user-1', DataType: dataType } })] });
+
+    expect(DataAccessorBase.parseChildDataType(dataType)).toBeNull();
+    expect(audit).toHaveBeenCalledWith(expect.objectContaining({ dataType: 'Audit:Auth:2026-01-01T00:00:00.000Z:audit-1' }));
+    expect(child).not.toHaveBeenCalled();
+  });
+
+  it('Migrate Images', async () => {
+    MigrationRegistry.register('User', [{ version: 1, up: record => ({ ...record, Name: record.Name.toUpperCase() }) }]);
+    const insert = jest.fn();
+
+    await new DynamoDBStreamDispatcher({ onError }).on<UserRecordType>('User', { insert })
+      .dispatch({ Records: [DynamoDBStreamEventUtil.createRecord('INSERT', { newImage: user })] });
+
+    expect(insert.mock.calls[0][0].newImage).toEqual({ ...user, Name: 'FIRST', SchemaVersion: 1 });
+  });
+
+  it('Report Partial Batch Failure', async () => {
+    const processed: string[] = [];
+
+    const dispatcher = new DynamoDBStreamDispatcher({ onError }).on<UserRecordType>('User', {
+      insert: ({ newImage }) => {
+        if (newImage.Name === 'broken') {
+          throw new Error('Push failed');
+        }
+        processed.push(newImage.ID!);
+      },
+    });
+
+    const records = [
+      DynamoDBStreamEventUtil.createRecord('INSERT', { newImage: { ...user, ID: 'user-1' } }),
+      DynamoDBStreamEventUtil.createRecord('INSERT', { newImage: { ...user, ID: 'user-2', Name: 'broken' } }),
+      DynamoDBStreamEventUtil.createRecord('INSERT', { newImage: { ...user, ID: 'user-3' } }),
+    ];
+
+    const result = await dispatcher.dispatch({ Records: records });
+
+    // 失敗したレコード以降は再試行されるため処理しない
+    expect(result).toEqual({ batchItemFailures: [{ itemIdentifier: records[1].dynamodb!.SequenceNumber }] });
+    expect(processed).toEqual(['user-1']);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Push failed' }), records[1]);
+  });
+
+  it('Require Images', async () => {
+    const record = DynamoDBStreamEventUtil.createRecord('MODIFY', { newImage: renamed });
+
+    const result = await new DynamoDBStreamDispatcher({ onError }).on('User', { modify: jest.fn() })
+      .dispatch({ Records: [record] });
+
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: record.dynamodb!.SequenceNumber }]);
+    expect(onError.mock.calls[0][0].message).toContain('OldImage is missing');
+  });
+});
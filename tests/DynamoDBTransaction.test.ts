@@ -0,0 +1,162 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+
+import DataAccessorBase from '@common/services/DataAccessorBase';
+import DynamoDBService from '@common/services/aws/DynamoDBService';
+import DynamoDBServiceMock from '@common-mock/services/aws/DynamoDBServiceMock';
+import DynamoDBTransaction from '@common/services/aws/DynamoDBTransaction';
+import InMemoryStorageBackend from '@common/services/storage/InMemoryStorageBackend';
+import { StorageBackend } from '@common/interfaces/storage/StorageBackend';
+import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+import { TransactionConflictError } from '@common/errors';
+
+const tableName = 'Test';
+
+interface UserRecordType extends RecordTypeBase {
+  Name: string;
+}
+
+interface SubscriptionRecordType extends RecordTypeBase {
+  UserID: string;
+}
+
+class UserDataAccessor extends DataAccessorBase<UserRecordType> {
+  constructor(backend: StorageBackend<UserRecordType>) {
+    super(tableName, 'User', backend);
+  }
+}
+
+class SubscriptionDataAccessor extends DataAccessorBase<SubscriptionRecordType> {
+  constructor(dynamoDBService: DynamoDBService<SubscriptionRecordType>) {
+    super(tableName, 'Subscription', dynamoDBService);
+  }
+}
+
+class SoftDeleteUserDataAccessor extends DataAccessorBase<UserRecordType> {
+  constructor(dynamoDBService: DynamoDBService<UserRecordType>) {
+    super(tableName, 'User', dynamoDBService, { softDelete: true });
+  }
+}
+
+describe('DynamoDBTransaction', () => {
+  describe('TransactWriteItems', () => {
+    const userAccessor = new UserDataAccessor(new DynamoDBService(tableName));
+    const subscriptionAccessor = new SubscriptionDataAccessor(new DynamoDBService(tableName));
+
+    const createTransaction = (send: jest.Mock): DynamoDBTransaction =>
+      new DynamoDBTransaction(async () => ({ send } as unknown as DynamoDBClient));
+
+    it('should send every step in one request', async () => {
+      const send = jest.fn().mockResolvedValue({});
+
+      const created = await createTransaction(send)
+        .put(userAccessor, { Name: 'new user' })
+        .update(userAccessor, 'user-1', { Name: 'renamed' }, { expectedVersion: 2 })
+        .delete(subscriptionAccessor, 'sub-1')
+        .conditionCheck(subscriptionAccessor, 'sub-2', { UserID: 'user-1' })
+        .commit();
+
+      expect(send).toHaveBeenCalledTimes(1);
+
+      const items = send.mock.calls[0][0].input.TransactItems;
+      expect(items.map((item: object) => Object.keys(item)[0])).toEqual(['Put', 'Update', 'Delete', 'ConditionCheck']);
+      expect(items[0].Put.Item.DataType).toEqual({ S: 'User' });
+      expect(items[1].Update.ConditionExpression).toBeDefined();
+      expect(items[2].Delete.Key.DataType).toEqual({ S: 'Subscription' });
+      expect(items[3].ConditionCheck.ConditionExpression).toContain('attribute_exists');
+
+      expect(created.length).toBe(1);
+      expect(created[0].DataType).toBe('User');
+      expect((created[0] as UserRecordType).Name).toBe('new user');
+    });
+
+    it('should report the steps whose condition failed', async () => {
+      const error = Object.assign(new Error('Transaction cancelled'), {
+        name: 'TransactionCanceledException',
+        CancellationReasons: [{ Code: 'None' }, { Code: 'ConditionalCheckFailed' }],
+      });
+      const send = jest.fn().mockRejectedValue(error);
+
+      const transaction = createTransaction(send)
+        .delete(userAccessor, 'user-1')
+        .conditionCheck(subscriptionAccessor, 'sub-1', { UserID: 'user-1' });
+
+      const result = await transaction.commit().catch(e => e);
+
+      expect(result).toBeInstanceOf(TransactionConflictError);
+      expect(result.failedSteps).toEqual([
+        { index: 1, operation: 'conditionCheck', dataType: 'Subscription', id: 'sub-1' },
+      ]);
+    });
+
+    it('should not send an empty transaction', async () => {
+      const send = jest.fn();
+
+      expect(await createTransaction(send).commit()).toEqual([]);
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it('should not update a soft deleted item', async () => {
+      const send = jest.fn().mockResolvedValue({});
+      const softDeleteAccessor = new SoftDeleteUserDataAccessor(new DynamoDBService(tableName));
+
+      await createTransaction(send)
+        .update(userAccessor, 'user-1', { Name: 'renamed' })
+        .update(softDeleteAccessor, 'user-2', { Name: 'renamed' })
+        .commit();
+
+      const items = send.mock.calls[0][0].input.TransactItems;
+      expect(items[0].Update.ConditionExpression).not.toMatch(/attribute_not_exists\(#n\d+\)$/);
+      expect(items[1].Update.ConditionExpression).toMatch(/attribute_not_exists\(#n\d+\)$/);
+    });
+
+    it('should reject an accessor that does not use DynamoDB', () => {
+      const memoryAccessor = new UserDataAccessor(new InMemoryStorageBackend(tableName));
+
+      expect(() => createTransaction(jest.fn()).put(memoryAccessor, { Name: 'new user' }))
+        .toThrow('Transactions require DynamoDBService as the backend of DataType: User');
+    });
+  });
+
+  describe('Mock', () => {
+    it('should apply all steps or none', async () => {
+      const userService = new DynamoDBServiceMock<UserRecordType>(tableName);
+      const subscriptionService = new DynamoDBServiceMock<SubscriptionRecordType>(tableName);
+      const userAccessor = new UserDataAccessor(userService);
+      const subscriptionAccessor = new SubscriptionDataAccessor(subscriptionService);
+
+      const user = await userAccessor.create({ Name: 'user' });
+      const subscription = await subscriptionAccessor.create({ UserID: user.ID! });
+
+      await expect(userService.transaction()
+        .delete(userAccessor, user.ID!)
+        .delete(subscriptionAccessor, subscription.ID!, { expectedVersion: 99 })
+        .commit()
+      ).rejects.toThrow(TransactionConflictError);
+
+      expect(await userAccessor.getById(user.ID!)).not.toBeNull();
+
+      await userService.transaction()
+        .delete(userAccessor, user.ID!)
+        .delete(subscriptionAccessor, subscription.ID!, { expectedVersion: 1 })
+        .commit();
+
+      expect(await userAccessor.getById(user.ID!)).toBeNull();
+      expect(await subscriptionAccessor.getById(subscription.ID!)).toBeNull();
+    });
+
+    it('should not update a missing item', async () => {
+      const userService = new DynamoDBServiceMock<UserRecordType>(tableName);
+      const userAccessor = new UserDataAccessor(userService);
+      const user = await userAccessor.create({ Name: 'user' });
+
+      await expect(userService.transaction()
+        .update(userAccessor, user.ID!, { Name: 'updated' })
+        .update(userAccessor, 'unknown', { Name: 'created' })
+        .commit()
+      ).rejects.toThrow(TransactionConflictError);
+
+      expect((await userAccessor.getById(user.ID!))?.Name).toBe('user');
+      expect(await userAccessor.getById('unknown')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import JsonFileStorageBackend from '@common/services/storage/JsonFileStorageBackend';
+import InMemoryStorageBackend from '@common/services/storage/InMemoryStorageBackend';
+import UpdateOperation from '@common/services/storage/UpdateOperation';
+import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+import { ConflictError } from '@common/errors';
+
+const tableName = 'Test';
+
+interface NoteRecordType extends RecordTypeBase {
+  Title: string;
+  Memo?: string | null;
+  Count?: number;
+  Tags?: Set<string>;
+  Attachment?: Uint8Array;
+}
+
+describe('JsonFileStorageBackend', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'json-storage-'));
+    filePath = join(directory, 'data', 'notes.json');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('Persist Across Instances', async () => {
+    const created = await new JsonFileStorageBackend<NoteRecordType>(tableName, filePath)
+      .create({ DataType: 'Note', Title: 'first', Tags: new Set(['a', 'b']), Attachment: new Uint8Array([1, 2, 3]) });
+
+    expect(created.Create).toBeDefined();
+    expect(created.Update).toBe(created.Create);
+    expect(created.Version).toBe(1);
+
+    const reloaded = new JsonFileStorageBackend<NoteRecordType>(tableName, filePath);
+
+    expect(await reloaded.getById(created.ID!, 'Note')).toEqual(created);
+    expect(await reloaded.getAllByDataType('Note')).toEqual([created]);
+    expect(await reloaded.getAllByDataType('Other')).toEqual([]);
+
+    // 一時ファイル・ロックファイルは残らない
+    expect(readdirSync(join(directory, 'data'))).toEqual(['notes.json']);
+  });
+
+  it('Does Not Load AWS SDK', () => {
+    jest.isolateModules(() => {
+      ['@aws-sdk/client-dynamodb', '@aws-sdk/util-dynamodb', '@aws-sdk/client-cloudwatch-logs'].forEach(name => {
+        jest.doMock(name, () => {
+          throw new Error(`${name} must not be loaded`);
+        });
+      });
+
+      expect(() => require('@common/services/storage/JsonFileStorageBackend')).not.toThrow();
+      expect(() => require('@common/services/DataAccessorBase')).not.toThrow();
+    });
+  });
+
+  it('Update And Delete', async () => {
+    const backend = new JsonFileStorageBackend<NoteRecordType>(tableName, filePath);
+    const created = await backend.create({ DataType: 'Note', Title: 'first', Memo: 'memo', Count: 1 });
+
+    const updated = await backend.update(created.ID!, 'Note', { Memo: null, Count: UpdateOperation.add(2) });
+
+    // null は属性の削除として扱う
+    expect(updated).not.toHaveProperty('Memo');
+    expect(updated?.Count).toBe(3);
+    expect(updated?.Version).toBe(2);
+    expect(await backend.getById(created.ID!, 'Note')).toEqual(updated);
+
+    await expect(backend.update(created.ID!, 'Note', { Title: 'stale' }, { expectedVersion: 1 }))
+      .rejects.toBeInstanceOf(ConflictError);
+    expect(await backend.update('missing', 'Note', { Title: 'none' })).toBeNull();
+
+    await backend.delete(created.ID!, 'Note');
+    expect(await backend.getById(created.ID!, 'Note')).toBeNull();
+  });
+
+  it('Serialize Concurrent Writes', async () => {
+    const created = await new JsonFileStorageBackend<NoteRecordType>(tableName, filePath)
+      .create({ DataType: 'Note', Title: 'counter', Count: 0 });
+
+    // 別プロセスを想定し、インスタンスごとにファイルを読み書きする
+    await Promise.all(Array.from({ length: 10 }, () =>
+      new JsonFileStorageBackend<NoteRecordType>(tableName, filePath)
+        .update(created.ID!, 'Note', { Count: UpdateOperation.add(1) })
+    ));
+
+    const item = await new JsonFileStorageBackend<NoteRecordType>(tableName, filePath).getById(created.ID!, 'Note');
+    expect(item?.Count).toBe(10);
+    expect(item?.Version).toBe(11);
+  });
+
+  it('Lock Timeout', async () => {
+    const backend = new JsonFileStorageBackend<NoteRecordType>(tableName, filePath, { lockTimeout: 100 });
+    await backend.create({ DataType: 'Note', Title: 'first' });
+
+    writeFileSync(`${filePath}.lock`, '12345');
+
+    await expect(backend.create({ DataType: 'Note', Title: 'second' }))
+      .rejects.toThrow(`Timed out waiting for the lock: ${filePath}.lock`);
+    expect(await backend.getAllByDataType('Note')).toHaveLength(1);
+
+    // 古いロックは異常終了したプロセスのものとして削除する
+    const past = new Date(Date.now() - 60 * 1000);
+    utimesSync(`${filePath}.lock`, past, past);
+
+    await backend.create({ DataType: 'Note', Title: 'second' });
+    expect(await backend.getAllByDataType('Note')).toHaveLength(2);
+    expect(existsSync(`${filePath}.lock`)).toBe(false);
+    expect(readdirSync(join(directory, 'data'))).toEqual(['notes.json']);
+  });
+
+  it('Keep Lock Taken Over By Another Process', async () => {
+    const backend = new JsonFileStorageBackend<NoteRecordType>(tableName, filePath);
+    const create = InMemoryStorageBackend.prototype.create;
+
+    // 処理中に古いロックとみなされ、別のプロセスがロックを取得し直した状態を再現する
+    jest.spyOn(InMemoryStorageBackend.prototype, 'create').mockImplementationOnce(function (this: InMemoryStorageBackend<NoteRecordType>, ...args) {
+      writeFileSync(`${filePath}.lock`, 'other');
+      return create.apply(this, args);
+    });
+
+    await backend.create({ DataType: 'Note', Title: 'first' });
+
+    expect(readFileSync(`${filePath}.lock`, 'utf8')).toBe('other');
+  });
+});
@@ -0,0 +1,93 @@
+import DataAccessorBase from '@common/services/DataAccessorBase';
+import InMemoryStorageBackend from '@common/services/storage/InMemoryStorageBackend';
+import MigrationRegistry from '@common/services/migration/MigrationRegistry';
+import MigrationRunner from '@common/services/migration/MigrationRunner';
+import { MigrationProgress } from '@common/interfaces/migration/RecordMigration';
+import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+
+const tableName = 'Test';
+const dataType = 'Member';
+
+interface MemberRecordType extends RecordTypeBase {
+  DisplayName: string;
+  Roles: string[];
+}
+
+class MemberDataAccessor extends DataAccessorBase<MemberRecordType> {
+  constructor(backend: InMemoryStorageBackend<MemberRecordType>) {
+    super(tableName, dataType, backend);
+  }
+}
+
+// SchemaVersion 導入前の形式のレコード
+const putLegacyRecord = (backend: InMemoryStorageBackend<MemberRecordType>, id: string): void => {
+  backend.putItem({ ID: id, DataType: dataType, Name: `name-${id}`, Create: 1, Update: 1 } as unknown as MemberRecordType);
+};
+
+describe('Migration', () => {
+  let backend: InMemoryStorageBackend<MemberRecordType>;
+  let dataAccessor: MemberDataAccessor;
+
+  beforeEach(() => {
+    MigrationRegistry.register(dataType, [
+      { version: 2, up: ({ Name, ...record }) => ({ ...record, DisplayName: Name }) },
+      { version: 1, up: record => ({ ...record, Roles: record.Roles || [] }) },
+    ]);
+    backend = new InMemoryStorageBackend(tableName);
+    dataAccessor = new MemberDataAccessor(backend);
+  });
+
+  afterEach(() => {
+    MigrationRegistry.clear();
+  });
+
+  it('Register', () => {
+    expect(MigrationRegistry.getLatestVersion(dataType)).toBe(2);
+    expect(MigrationRegistry.getLatestVersion('Other')).toBe(0);
+    expect(() => MigrationRegistry.register(dataType, [{ version: 2, up: record => record }])).toThrow();
+  });
+
+  it('Create With Schema Version', async () => {
+    const created = await dataAccessor.create({ DisplayName: 'name', Roles: [] });
+
+    expect(created.SchemaVersion).toBe(2);
+  });
+
+  it('Upgrade On Read', async () => {
+    putLegacyRecord(backend, 'legacy');
+
+    const item = await dataAccessor.getById('legacy');
+
+    expect(item).toMatchObject({ DisplayName: 'name-legacy', Roles: [], SchemaVersion: 2 });
+    expect(item).not.toHaveProperty('Name');
+
+    // 読み取りでは保存しない (他のクライアントの expectedVersion を変えない)
+    expect((await dataAccessor.get()).map(record => record.DisplayName)).toEqual(['name-legacy']);
+    expect(await backend.getById('legacy', dataType)).toEqual({ ID: 'legacy', DataType: dataType, Name: 'name-legacy', Create: 1, Update: 1 });
+  });
+
+  it('Runner', async () => {
+    ['a', 'b', 'c'].forEach(id => putLegacyRecord(backend, id));
+    await dataAccessor.create({ DisplayName: 'latest', Roles: [] });
+
+    const progress: MigrationProgress[] = [];
+    const dryRunResult = await new MigrationRunner(dataAccessor).run({
+      dryRun: true,
+      pageSize: 2,
+      onProgress: p => progress.push(p),
+    });
+
+    expect(dryRunResult).toMatchObject({ scanned: 4, migrated: 3, failed: 0, dryRun: true });
+    expect(progress).toEqual([
+      { scanned: 2, migrated: 2, failed: 0 },
+      { scanned: 4, migrated: 3, failed: 0 },
+    ]);
+    expect((await backend.getById('a', dataType))?.SchemaVersion).toBeUndefined();
+
+    const result = await new MigrationRunner(dataAccessor).run();
+
+    expect(result).toMatchObject({ scanned: 4, migrated: 3, failed: 0, dryRun: false });
+    expect((await backend.getAllByDataType(dataType)).every(item => item.SchemaVersion === 2)).toBe(true);
+    expect((await new MigrationRunner(dataAccessor).run()).migrated).toBe(0);
+  });
+});
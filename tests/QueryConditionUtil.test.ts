@@ -0,0 +1,39 @@
+import QueryConditionUtil from '@common/utils/QueryConditionUtil';
+import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+
+interface TestRecordType extends RecordTypeBase {
+  Name: string;
+  Count: number;
+  Tags: string[];
+  Detail?: { key: string };
+}
+
+const record: TestRecordType = {
+  ID: 'id-1',
+  DataType: 'Test',
+  Name: 'Alpha',
+  Count: 5,
+  Tags: ['a', 'b'],
+  Detail: { key: 'value' },
+};
+
+describe('QueryConditionUtil', () => {
+  it('should match plain values and objects', () => {
+    expect(QueryConditionUtil.matches(record, { Name: 'Alpha' })).toBe(true);
+    expect(QueryConditionUtil.matches(record, { Name: 'Beta' })).toBe(false);
+    expect(QueryConditionUtil.matches(record, { Detail: { key: 'value' } })).toBe(true);
+  });
+
+  it('should match operators', () => {
+    expect(QueryConditionUtil.matches(record, { Name: { begins_with: 'Al' } })).toBe(true);
+    expect(QueryConditionUtil.matches(record, { Count: { between: [1, 5] } })).toBe(true);
+    expect(QueryConditionUtil.matches(record, { Count: { gt: 5 } })).toBe(false);
+    expect(QueryConditionUtil.matches(record, { Tags: { contains: 'b' } })).toBe(true);
+    expect(QueryConditionUtil.matches(record, { Name: { in: ['Alpha', 'Beta'] } })).toBe(true);
+    expect(QueryConditionUtil.matches(record, { Detail: { exists: false } })).toBe(false);
+  });
+
+  it('should require every condition to match', () => {
+    expect(QueryConditionUtil.matches(record, { Name: 'Alpha', Count: { lt: 5 } })).toBe(false);
+  });
+});
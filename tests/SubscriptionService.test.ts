@@ -0,0 +1,30 @@
+import InMemoryStorageBackend from '@common/services/storage/InMemoryStorageBackend';
+import { SubscriptionDataAccessor } from '@common/services/subscription/SubscriptionDataAccessor';
+import { SubscriptionService } from '@common/services/subscription/SubscriptionService';
+import { ValidationError } from '@common/errors';
+
+describe('SubscriptionService', () => {
+  let service: SubscriptionService;
+
+  beforeEach(() => {
+    service = new SubscriptionService(new SubscriptionDataAccessor(new InMemoryStorageBackend('Subscription')));
+  });
+
+  it('Rotate Keys', async () => {
+    const created = await service.create({
+      terminalId: 'terminal',
+      subscription: { endpoint: 'https://example.com/push', keys: { p256dh: 'p256dh-old', auth: 'auth-old' } },
+    });
+
+    const rotated = await service.rotateKeys(created.id, { p256dh: 'p256dh-new', auth: 'auth-new' }, { expectedVersion: created.version });
+
+    expect(rotated.subscription).toEqual({
+      endpoint: 'https://example.com/push',
+      keys: { p256dh: 'p256dh-new', auth: 'auth-new' },
+    });
+    expect(rotated.version).toBe(2);
+    expect(created.subscription.keys.auth).toBe('auth-old');
+
+    await expect(service.rotateKeys(created.id, { p256dh: 'p256dh', auth: '' })).rejects.toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,105 @@
+import InMemoryStorageBackend from '@common/services/storage/InMemoryStorageBackend';
+import ValidationUtil from '@common/utils/ValidationUtil';
+import CacheUtil from '@common/utils/CacheUtil';
+import { AuthDataAccessor } from '@common/services/auth/AuthDataAccessor.v2';
+import { AuthDataType } from '@common/interfaces/data/AuthDataType';
+import { AuthService } from '@common/services/auth/AuthService.v2';
+import { AuthRecordType } from '@common/interfaces/record/AuthRecordType';
+import { BadRequestError, ValidationError } from '@common/errors';
+import { SubscriptionDataAccessor } from '@common/services/subscription/SubscriptionDataAccessor';
+import { SubscriptionRecordType } from '@common/interfaces/record/SubscriptionRecordType';
+import { SubscriptionService } from '@common/services/subscription/SubscriptionService';
+
+const generateSubscriptionRecord = (): Partial<SubscriptionRecordType> => {
+  return {
+    TerminalID: 'terminal',
+    Subscription: {
+      endpoint: 'https://example.com/push',
+      keys: { p256dh: 'p256dh', auth: 'auth' },
+    },
+  };
+};
+
+describe('ValidationUtil', () => {
+  it('Validate', () => {
+    const schema = {
+      Name: { type: 'string' as const, required: true, minLength: 1 },
+      Count: { type: 'number' as const, min: 0 },
+      Tags: { type: 'array' as const, items: { type: 'string' as const } },
+    };
+
+    expect(ValidationUtil.validate({ Name: 'name', Count: 1, Tags: ['a'] }, schema)).toEqual([]);
+    expect(ValidationUtil.validate({ Count: -1, Tags: ['a', 1] }, schema)).toEqual([
+      { path: 'Name', message: 'is required' },
+      { path: 'Count', message: 'must be >= 0' },
+      { path: 'Tags[1]', message: 'must be string' },
+    ]);
+  });
+
+  it('Partial', () => {
+    const schema = {
+      Name: { type: 'string' as const, required: true },
+      Count: { type: 'number' as const },
+    };
+
+    expect(ValidationUtil.validate({ Count: 1 }, schema, true)).toEqual([]);
+    expect(ValidationUtil.validate({ Name: undefined, Count: 1 }, schema, true)).toEqual([]);
+    expect(ValidationUtil.validate({ Name: null }, schema, true)).toEqual([{ path: 'Name', message: 'is required' }]);
+  });
+});
+
+describe('DataAccessor Schema', () => {
+  it('Subscription', async () => {
+    const dataAccessor = new SubscriptionDataAccessor(new InMemoryStorageBackend('Subscription'));
+    const created = await dataAccessor.create(generateSubscriptionRecord());
+
+    const invalid = generateSubscriptionRecord();
+    invalid.TerminalID = '';
+    invalid.Subscription = { endpoint: 'http://example.com', keys: { p256dh: 'p256dh' } } as SubscriptionRecordType['Subscription'];
+
+    const error = await dataAccessor.create(invalid).catch(e => e);
+    expect(error).toBeInstanceOf(BadRequestError);
+    expect((error as ValidationError).violations.map(violation => violation.path)).toEqual([
+      'TerminalID',
+      'Subscription.endpoint',
+      'Subscription.keys.auth',
+    ]);
+
+    await expect(dataAccessor.update(created.ID!, { Subscription: invalid.Subscription })).rejects.toThrow(ValidationError);
+    expect(await dataAccessor.update(created.ID!, { TerminalID: 'updated' })).toMatchObject({ TerminalID: 'updated' });
+  });
+
+  it('Auth', async () => {
+    const dataAccessor = new AuthDataAccessor<AuthRecordType>(new InMemoryStorageBackend('Auth'));
+
+    await expect(dataAccessor.create({ Name: 'name' })).rejects.toThrow('GoogleUserID is required');
+    await expect(dataAccessor.batchCreate([{ Name: 'name', GoogleUserID: 'id' }, { GoogleUserID: 'id' }])).rejects.toThrow(ValidationError);
+    expect(await dataAccessor.get()).toEqual([]);
+  });
+});
+
+describe('Service Partial Update', () => {
+  it('Subscription', async () => {
+    const service = new SubscriptionService(new SubscriptionDataAccessor(new InMemoryStorageBackend('Subscription')));
+    const created = await service.create({
+      terminalId: 't1',
+      subscription: { endpoint: 'https://example.com/push', keys: { p256dh: 'p256dh', auth: 'auth' } },
+    });
+
+    // 指定していない属性 (undefined) は検証しない
+    const updated = await service.update(created.id, { terminalId: 't2' });
+    expect(updated).toMatchObject({ terminalId: 't2', subscription: created.subscription });
+
+    await expect(service.update(created.id, { subscription: null as unknown as SubscriptionRecordType['Subscription'] }))
+      .rejects.toThrow('Subscription is required');
+  });
+
+  it('Auth', async () => {
+    CacheUtil.clearByPrefix('Auth');
+    const service = new AuthService<AuthDataType, AuthRecordType>(new AuthDataAccessor(new InMemoryStorageBackend('Auth')));
+    const created = await service.create({ name: 'n1', googleUserId: 'google-1' });
+
+    const updated = await service.update(created.id, { name: 'n2' });
+    expect(updated).toMatchObject({ name: 'n2', googleUserId: 'google-1' });
+  });
+});
@@ -1,5 +1,7 @@
 import DynamoDBService from '@common/services/aws/DynamoDBService';
 import ErrorUtil from '@common/utils/ErrorUtil';
+import { AlreadyExistsError, ConflictError } from '@common/errors';
+import { DATA_TYPE_INDEX_NAME } from '@common/consts/DynamoDBConst';
 import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
 
 const TEST_RECORD_DATA_TYPE = {
@@ -106,6 +108,61 @@ describe.skip('AWS Tests', () => {
       expect(typeBItems.find(i => i.ID === item1.ID)).toBeUndefined();
     });
 
+    it('Get All By DataType With Index', async () => {
+      const indexedService = new DynamoDBService<TestRecordType>(tableName, {
+        dataTypeIndexName: DATA_TYPE_INDEX_NAME
+      });
+
+      const item1 = await indexedService.create(generateTypeARecord());
+      const item2 = await indexedService.create(generateTypeBRecord());
+
+      const typeAItems = await indexedService.getAllByDataType(TEST_RECORD_DATA_TYPE.TYPEA);
+
+      expect(indexedService.getDataTypeIndexName()).toBe(DATA_TYPE_INDEX_NAME);
+      expect(typeAItems.find(i => i.ID === item1.ID)).toBeDefined();
+      expect(typeAItems.find(i => i.ID === item2.ID)).toBeUndefined();
+    });
+
+    it('Find', async () => {
+      const item1 = await dynamoDBService.create(generateTypeARecord());
+      const item2 = await dynamoDBService.create(generateTypeBRecord());
+
+      const byColumn = await dynamoDBService.find(TEST_RECORD_DATA_TYPE.TYPEA, { StringColumn: 'stringA' });
+      const byId = await dynamoDBService.find(TEST_RECORD_DATA_TYPE.TYPEA, { ID: item1.ID, NumberColumn: { gte: 100 } });
+
+      expect(byColumn.find(i => i.ID === item1.ID)).toBeDefined();
+      expect(byColumn.find(i => i.ID === item2.ID)).toBeUndefined();
+      expect(byId.length).toBe(1);
+    });
+
+    it('Iterate By DataType', async () => {
+      await dynamoDBService.create(generateTypeARecord());
+      await dynamoDBService.create(generateTypeARecord());
+
+      const allItems = await dynamoDBService.getAllByDataType(TEST_RECORD_DATA_TYPE.TYPEA);
+
+      const iteratedItems: TestRecordType[] = [];
+      for await (const page of dynamoDBService.iterateByDataType(TEST_RECORD_DATA_TYPE.TYPEA, 1)) {
+        expect(page.length).toBeLessThanOrEqual(1);
+        iteratedItems.push(...page);
+      }
+
+      expect(iteratedItems.length).toBe(allItems.length);
+      expect(iteratedItems.every(i => i.DataType === TEST_RECORD_DATA_TYPE.TYPEA)).toBe(true);
+    });
+
+    it('Get By Id With DataType', async () => {
+      const item = await dynamoDBService.create(generateTypeARecord());
+
+      const byKey = await dynamoDBService.getById(item.ID, TEST_RECORD_DATA_TYPE.TYPEA);
+      const byPartition = await dynamoDBService.getById(item.ID);
+      const otherType = await dynamoDBService.getById(item.ID, TEST_RECORD_DATA_TYPE.TYPEB);
+
+      expect(byKey?.ID).toBe(item.ID);
+      expect(byPartition?.ID).toBe(item.ID);
+      expect(otherType).toBeNull();
+    });
+
     it('CRUD', async () => {
       const createItem = await dynamoDBService.create(generateTypeARecord());
       const id = createItem.ID;
@@ -220,6 +277,52 @@ describe.skip('AWS Tests', () => {
       expect(deleteResult).toBeNull();
     });
 
+    it('Update With Expected Version', async () => {
+      const createItem = await dynamoDBService.create(generateTypeARecord());
+      const id = createItem.ID;
+
+      expect(createItem.Version).toBe(1);
+
+      const updateResult = await dynamoDBService.update(id, TEST_RECORD_DATA_TYPE.TYPEA, { NumberColumn: 1 }, { expectedVersion: 1 });
+      expect(updateResult?.Version).toBe(2);
+
+      await expect(
+        dynamoDBService.update(id, TEST_RECORD_DATA_TYPE.TYPEA, { NumberColumn: 2 }, { expectedVersion: 1 })
+      ).rejects.toThrow(ConflictError);
+      await expect(
+        dynamoDBService.delete(id, TEST_RECORD_DATA_TYPE.TYPEA, { expectedVersion: 1 })
+      ).rejects.toThrow(ConflictError);
+
+      await dynamoDBService.delete(id, TEST_RECORD_DATA_TYPE.TYPEA, { expectedVersion: 2 });
+    });
+
+    it('Batch', async () => {
+      const creates = Array.from({ length: 30 }, () => generateTypeARecord());
+
+      const items = await dynamoDBService.batchCreate(creates);
+      const ids = items.map(item => item.ID!);
+
+      const results = await dynamoDBService.batchGetByIds(ids, TEST_RECORD_DATA_TYPE.TYPEA);
+      expect(results.map(item => item.ID)).toEqual(ids);
+
+      await dynamoDBService.batchDelete(ids, TEST_RECORD_DATA_TYPE.TYPEA);
+
+      expect(await dynamoDBService.batchGetByIds(ids, TEST_RECORD_DATA_TYPE.TYPEA)).toEqual([]);
+    });
+
+    it('Create If Not Exists', async () => {
+      const id = `natural-key-${Date.now()}`;
+
+      const createItem = await dynamoDBService.create(generateTypeARecord(), { id, ifNotExists: true });
+      expect(createItem.ID).toBe(id);
+
+      await expect(
+        dynamoDBService.create(generateTypeARecord(), { id, ifNotExists: true })
+      ).rejects.toThrow(AlreadyExistsError);
+
+      await dynamoDBService.delete(id, TEST_RECORD_DATA_TYPE.TYPEA);
+    });
+
     it('Update Partial Columns', async () => {
       const createItem = await dynamoDBService.create(generateTypeBRecord());
       const id = createItem.ID;
@@ -1,60 +1,121 @@
-import DynamoDBService from '@common/services/aws/DynamoDBService';
+import { AttributeValue } from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+
+import DynamoDBService, {
+  ConditionalWriteOptions,
+  CreateOptions,
+  Page,
+  PageOptions,
+  ProjectionAttributes,
+  ReturnValuesOptions,
+  UpdateOptions,
+  UpdateResult,
+  UpdateReturnValues
+} from '@common/services/aws/DynamoDBService';
+import { QueryCondition } from '@common/interfaces/query/QueryCondition';
 import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
-import CommonUtil from '@common/utils/CommonUtil';
-import ErrorUtil from '@common/utils/ErrorUtil';
+import DynamoDBTransaction from '@common/services/aws/DynamoDBTransaction';
+import DynamoDBTransactionMock from '@common-mock/services/aws/DynamoDBTransactionMock';
+import InMemoryStorageBackend from '@common/services/storage/InMemoryStorageBackend';
+import { RecordUpdates } from '@common/services/storage/UpdateOperation';
 
+/**
+ * DynamoDB 固有の機能 (トランザクション・エクスポート / インポート) を使用するテスト用の DynamoDBService。
+ * レコードの読み書きは InMemoryStorageBackend に委譲する。
+ */
 export default class DynamoDBServiceMock<T extends RecordTypeBase> extends DynamoDBService<T> {
-  private items: T[] = [];
+  private readonly memory = new InMemoryStorageBackend<T>(this.getTableName());
 
   public override async getAll(): Promise<T[]> {
-    return this.items;
+    return await this.memory.getAll();
   }
 
-  public override async getAllByDataType(dataTypeValue: string): Promise<T[]> {
-    return this.items.filter(item => item.DataType === dataTypeValue);
+  public override async getAllByDataType(dataTypeValue: string, projection?: ProjectionAttributes<T>): Promise<T[]> {
+    return await this.memory.getAllByDataType(dataTypeValue, projection);
   }
 
-  public override async getById(id: string): Promise<T | null> {
-    const item = this.items.find(item => item.ID === id);
-    return (item as T) || null;
+  public override async *iterateByDataType(dataTypeValue: string, pageSize?: number): AsyncGenerator<T[]> {
+    yield* this.memory.iterateByDataType(dataTypeValue, pageSize);
   }
 
-  public override async create(creates: Partial<T>): Promise<T> {
-    if (!creates.DataType) {
-      ErrorUtil.throwError('DataType is required');
-    }
+  public override async find(dataTypeValue: string, condition: QueryCondition<T>, projection?: ProjectionAttributes<T>): Promise<T[]> {
+    return await this.memory.find(dataTypeValue, condition, projection);
+  }
+
+  public override async *iterateFind(
+    dataTypeValue: string,
+    condition: QueryCondition<T>,
+    pageSize?: number,
+    projection?: ProjectionAttributes<T>
+  ): AsyncGenerator<T[]> {
+    yield* this.memory.iterateFind(dataTypeValue, condition, pageSize, projection);
+  }
+
+  public override async findPage(dataTypeValue: string, condition: QueryCondition<T>, options: PageOptions): Promise<Page<T>> {
+    return await this.memory.findPage(dataTypeValue, condition, options);
+  }
+
+  public override async getById(id: string, dataType?: string, projection?: ProjectionAttributes<T>): Promise<T | null> {
+    return await this.memory.getById(id, dataType, projection);
+  }
 
-    const item: T = {
-      ...creates,
-      ID: CommonUtil.generateUUID(),
-      Create: Date.now(),
-      Update: Date.now(),
-    } as T;
+  public override async findByDataTypePrefix(id: string, dataTypePrefix: string): Promise<T[]> {
+    return await this.memory.findByDataTypePrefix(id, dataTypePrefix);
+  }
 
-    this.items.push(item);
+  public override async create(creates: Partial<T>, options: CreateOptions = {}): Promise<T> {
+    return await this.memory.create(creates, options);
+  }
 
-    return item;
+  public override async batchCreate(creates: Partial<T>[], options: Pick<CreateOptions, 'ttl'> = {}): Promise<T[]> {
+    return await this.memory.batchCreate(creates, options);
   }
 
-  public override async update(
+  public override async batchGetByIds(ids: string[], dataType: string): Promise<T[]> {
+    return await this.memory.batchGetByIds(ids, dataType);
+  }
+
+  public override async update<R extends UpdateReturnValues = 'ALL_NEW'>(
     id: string,
     dataType: string,
-    updates: Partial<T>
-  ): Promise<T> {
-    updates.Update = Date.now();
+    updates: RecordUpdates<T>,
+    options: UpdateOptions & ReturnValuesOptions<R> = {}
+  ): Promise<UpdateResult<T, R> | null> {
+    return await this.memory.update(id, dataType, updates, options);
+  }
+
+  public override async delete(id: string, dataType: string, options: ConditionalWriteOptions = {}): Promise<void> {
+    await this.memory.delete(id, dataType, options);
+  }
+
+  public override async batchDelete(ids: string[], dataType: string): Promise<void> {
+    await this.memory.batchDelete(ids, dataType);
+  }
 
-    const index = this.items.findIndex(item => item.ID === id && item.DataType === dataType);
-    if (index !== -1) {
-      this.items[index] = { ...this.items[index], ...updates };
+  public override async *iterateRawItems(dataTypeValue?: string, pageSize?: number): AsyncGenerator<Record<string, AttributeValue>[]> {
+    const items = this.memory.getStoredItems()
+      .filter(item => !dataTypeValue || item.DataType === dataTypeValue)
+      .map(item => marshall(item, { removeUndefinedValues: true }));
+    const size = pageSize || items.length;
+
+    for (let i = 0; i < items.length; i += size) {
+      yield items.slice(i, i + size);
     }
-    return this.items[index];
   }
 
-  public override async delete(id: string, dataType: string): Promise<void> {
-    this.items = this.items.filter(item => !(item.ID === id && item.DataType === dataType));
+  public override async batchPutRawItems(items: Record<string, AttributeValue>[]): Promise<void> {
+    items.forEach(item => this.memory.putItem(unmarshall(item) as T));
+  }
+
+  public override transaction(): DynamoDBTransaction {
+    return new DynamoDBTransactionMock();
+  }
+
+  public putItem(item: T): void {
+    this.memory.putItem(item);
   }
 
   public clearData(): void {
-    this.items = [];
+    this.memory.clearData();
   }
 }
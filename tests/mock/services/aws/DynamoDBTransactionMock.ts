@@ -0,0 +1,88 @@
+import DynamoDBTransaction, { TransactionStep } from '@common/services/aws/DynamoDBTransaction';
+import QueryConditionUtil from '@common/utils/QueryConditionUtil';
+import DynamoDBServiceMock from '@common-mock/services/aws/DynamoDBServiceMock';
+import { RecordTypeBase } from '@common/interfaces/record/RecordTypeBase';
+
+export default class DynamoDBTransactionMock extends DynamoDBTransaction {
+  constructor() {
+    super(async () => {
+      throw new Error('DynamoDBTransactionMock does not use DynamoDBClient');
+    });
+  }
+
+  public override async commit(): Promise<RecordTypeBase[]> {
+    const failedIndexes: number[] = [];
+
+    for (const [index, step] of this.steps.entries()) {
+      if (!(await this.isSatisfied(step))) {
+        failedIndexes.push(index);
+      }
+    }
+
+    if (failedIndexes.length > 0) {
+      this.throwConflict(failedIndexes);
+    }
+
+    for (const step of this.steps) {
+      const service = this.getService(step);
+      const dataType = step.dataType;
+
+      switch (step.operation) {
+        case 'put':
+          service.putItem(step.item!);
+          break;
+        case 'update':
+          await service.update(step.id, dataType, { ...step.updates });
+          break;
+        case 'delete':
+          if (step.accessor.isSoftDeleteEnabled()) {
+            await service.update(step.id, dataType, { Deleted: Date.now() });
+          } else {
+            await service.delete(step.id, dataType);
+          }
+          break;
+        case 'restore':
+          await service.update(step.id, dataType, { Deleted: null });
+          break;
+        case 'purge':
+          await service.delete(step.id, dataType);
+          break;
+      }
+    }
+
+    return this.getCreatedItems();
+  }
+
+  private async isSatisfied(step: TransactionStep): Promise<boolean> {
+    const current = await this.getService(step).getById(step.id, step.dataType);
+
+    if (step.operation === 'put') {
+      return !step.createOptions?.ifNotExists || current === null;
+    }
+
+    if (step.operation === 'conditionCheck') {
+      return current !== null && QueryConditionUtil.matches(current, step.condition || {});
+    }
+
+    // 更新 (論理削除・復元を含む) は既存のレコードにのみ適用できる
+    const updatesItem = step.operation === 'update'
+      || step.operation === 'restore'
+      || (step.operation === 'delete' && step.accessor.isSoftDeleteEnabled());
+
+    if (current === null && updatesItem) {
+      return false;
+    }
+
+    // 論理削除されたレコードは更新できない
+    if (step.operation === 'update' && step.accessor.isSoftDeleteEnabled() && current?.Deleted !== undefined) {
+      return false;
+    }
+
+    const expectedVersion = step.options?.expectedVersion;
+    return expectedVersion === undefined || (current !== null && (current.Version || 0) === expectedVersion);
+  }
+
+  private getService(step: TransactionStep): DynamoDBServiceMock<RecordTypeBase> {
+    return step.accessor.getBackend() as DynamoDBServiceMock<RecordTypeBase>;
+  }
+}